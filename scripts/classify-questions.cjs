@@ -0,0 +1,145 @@
+/**
+ * 問題の科目分類（merge-questions.cjs から呼び出す）
+ *
+ * 優先順:
+ *   1. 手動の上書き（subject-overrides.json）
+ *   2. 解説の科目（Explanation.subject）
+ *   3. キーワード規則（subject-rules.json）による推定
+ *   4. どの規則にも当たらなければ、同じセッションで前後に分類できた問題の科目
+ *
+ * 科目名は src/data/subjects.ts の Subject.name と一致させる（カスタムタブが category / keywords で照合するため）
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const subjectsPath = path.join(__dirname, '../src/data/subjects.ts');
+const rulesPath = path.join(__dirname, 'subject-rules.json');
+const overridesPath = path.join(__dirname, 'subject-overrides.json');
+
+// 問題文のヒットは選択肢より重く数える
+const QUESTION_TEXT_WEIGHT = 2;
+const CHOICE_WEIGHT = 1;
+// 最上位の科目に対してこの割合以上のスコアがあれば keywords にも入れる
+const SECONDARY_SUBJECT_RATIO = 0.5;
+// これ未満の確信度はレポートで確認対象にする
+const LOW_CONFIDENCE = 0.5;
+
+// subjects.ts から科目名を読み取る（TSをそのまま require できないため）
+function loadSubjectNames() {
+  const source = fs.readFileSync(subjectsPath, 'utf-8');
+  return [...source.matchAll(/name: '([^']+)', displayName:/g)].map(match => match[1]);
+}
+
+function loadJson(filePath) {
+  return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : {};
+}
+
+// キーワード規則で科目ごとのスコアを計算
+function scoreSubjects(question, rules) {
+  const choicesText = Object.values(question.choices || {}).join('\n');
+  const scores = [];
+
+  for (const [subject, keywords] of Object.entries(rules)) {
+    let score = 0;
+    for (const keyword of keywords) {
+      if (question.questionText.includes(keyword)) score += QUESTION_TEXT_WEIGHT;
+      if (choicesText.includes(keyword)) score += CHOICE_WEIGHT;
+    }
+    if (score > 0) scores.push({ subject, score });
+  }
+
+  return scores.sort((a, b) => b.score - a.score);
+}
+
+// 全問題に category と keywords を設定し、分類の記録を返す
+// questions は回次・セッション・番号順に並んでいること（前後の問題を参照するため）
+function classifyQuestions(questions, explanations) {
+  const subjectNames = new Set(loadSubjectNames());
+  const rules = loadJson(rulesPath);
+  const overrides = loadJson(overridesPath);
+  const problems = [];
+
+  // 規則の科目名が subjects.ts とずれていないか
+  for (const subject of Object.keys(rules)) {
+    if (!subjectNames.has(subject)) {
+      problems.push({ questionId: null, message: `規則の科目「${subject}」が subjects.ts にありません` });
+    }
+  }
+
+  const records = [];
+
+  for (const q of questions) {
+    const record = { questionId: q.id, category: null, keywords: [], source: null, confidence: 0 };
+    const override = overrides[q.id];
+    const explanationSubject = explanations[q.id] ? explanations[q.id].subject : null;
+    const scores = scoreSubjects(q, rules);
+    const totalScore = scores.reduce((sum, s) => sum + s.score, 0);
+    // 規則で強く当たった科目（複数科目の問題用）
+    const ruleSubjects = scores
+      .filter(s => s.score >= scores[0].score * SECONDARY_SUBJECT_RATIO)
+      .map(s => s.subject);
+
+    if (override) {
+      // 文字列なら科目のみ、オブジェクトなら keywords も指定できる
+      const category = typeof override === 'string' ? override : override.category;
+      const keywords = typeof override === 'string' ? [category] : (override.keywords || [category]);
+      Object.assign(record, { category, keywords, source: 'override', confidence: 1 });
+    } else if (explanationSubject && subjectNames.has(explanationSubject)) {
+      Object.assign(record, {
+        category: explanationSubject,
+        keywords: [explanationSubject, ...ruleSubjects],
+        source: 'explanation',
+        confidence: 1,
+      });
+    } else if (scores.length > 0) {
+      Object.assign(record, {
+        category: scores[0].subject,
+        keywords: ruleSubjects,
+        source: 'rules',
+        confidence: Math.round((scores[0].score / totalScore) * 100) / 100,
+      });
+    }
+
+    if (explanationSubject && !subjectNames.has(explanationSubject)) {
+      problems.push({ questionId: q.id, message: `解説の科目「${explanationSubject}」が subjects.ts にありません` });
+    }
+    if (record.source === 'override' && !subjectNames.has(record.category)) {
+      problems.push({ questionId: q.id, message: `上書きの科目「${record.category}」が subjects.ts にありません` });
+    }
+
+    records.push(record);
+  }
+
+  // 分類できなかった問題は同じセッションの直前（なければ直後）の問題の科目にする
+  const sessionOf = (i) => `${questions[i].year}${questions[i].session}`;
+  const findNeighbor = (i, step) => {
+    for (let j = i + step; j >= 0 && j < questions.length && sessionOf(j) === sessionOf(i); j += step) {
+      if (records[j].source !== 'neighbor' && records[j].category) return records[j].category;
+    }
+    return null;
+  };
+  records.forEach((record, i) => {
+    if (record.category) return;
+    const category = findNeighbor(i, -1) || findNeighbor(i, 1);
+    if (category) {
+      Object.assign(record, { category, keywords: [category], source: 'neighbor', confidence: 0 });
+    }
+  });
+
+  questions.forEach((q, i) => {
+    if (records[i].category) {
+      q.category = records[i].category;
+      q.keywords = [...new Set(records[i].keywords)];
+    }
+  });
+
+  return {
+    records,
+    problems,
+    lowConfidence: records.filter(r => r.category && r.confidence < LOW_CONFIDENCE).map(r => r.questionId),
+    unclassified: records.filter(r => !r.category).map(r => r.questionId),
+  };
+}
+
+module.exports = { classifyQuestions };
@@ -1,21 +1,36 @@
 #!/usr/bin/env node
 /**
- * 過去問JSONを統合してquestions.jsonを生成
+ * 過去問JSONを統合して回次ごとの分割データ（シャード）と目録を生成
  * 画像マッピングも読み込んで画像パスを追加
+ *
+ * 出力:
+ *   src/data/manifest.json      … メタデータと回次ごとの件数（起動時に読む小さなファイル）
+ *   src/data/shards/{回次}.json … その回次の問題と解説（必要になった時点で読み込む）
+ *   validation-report.json      … 整合性チェックの結果（--report で出力先を変更可）
+ *   classification-report.json  … 科目分類の結果（分類元・確信度、確認が必要な問題）
+ *
+ * 整合性チェックでエラーがあった場合は何も出力せず終了コード1で終了する
  */
 
 const fs = require('fs');
 const path = require('path');
+const { validateQuestions } = require('./validate-questions.cjs');
+const { classifyQuestions } = require('./classify-questions.cjs');
 
 // パス設定
 const jsonDataDir = path.join(__dirname, '../../json_data');
-const outputPath = path.join(__dirname, '../src/data/questions.json');
-
-// 出力ディレクトリ作成
-const outputDir = path.dirname(outputPath);
-if (!fs.existsSync(outputDir)) {
-  fs.mkdirSync(outputDir, { recursive: true });
-}
+const dataDir = path.join(__dirname, '../src/data');
+const explanationsPath = path.join(dataDir, 'explanations.json');
+const manifestPath = path.join(dataDir, 'manifest.json');
+const shardsDir = path.join(dataDir, 'shards');
+const publicDir = path.join(__dirname, '../public');
+
+// レポートの出力先（--report path/to/report.json）
+const reportIndex = process.argv.indexOf('--report');
+const reportPath = reportIndex !== -1
+  ? path.resolve(process.argv[reportIndex + 1])
+  : path.join(__dirname, '../validation-report.json');
+const classificationReportPath = path.join(__dirname, '../classification-report.json');
 
 // 画像マッピングを読み込み
 const imageMapping = {};
@@ -43,6 +58,8 @@ console.log(`  画像付き問題数: ${Object.keys(imageMapping).length}`);
 
 // 全問題を格納
 const allQuestions = [];
+// 問題ID → 読み込み元ファイル（チェック結果で元データを辿れるように）
+const sourceFiles = new Map();
 
 // 問題JSONファイルを読み込み
 const files = fs.readdirSync(jsonDataDir)
@@ -66,6 +83,8 @@ for (const file of files) {
     // 採点除外判定（answerが空または未定義）
     const isExcluded = !q.answer || q.answer.trim() === '';
 
+    sourceFiles.set(q.full_code, file);
+
     // アプリ用の形式に変換
     allQuestions.push({
       id: q.full_code,
@@ -80,7 +99,7 @@ for (const file of files) {
       figureRefs: q.figure_refs || [],
       images: imagePaths,
       isExcluded: isExcluded,
-      // 将来追加用のフィールド（空で初期化）
+      // category / keywords は科目分類で設定
       category: null,
       subcategory: null,
       keywords: []
@@ -88,6 +107,39 @@ for (const file of files) {
   }
 }
 
+// 解説を読み込み（キーは問題ID、例: "103A93"）
+const explanations = fs.existsSync(explanationsPath)
+  ? JSON.parse(fs.readFileSync(explanationsPath, 'utf-8'))
+  : {};
+
+// 整合性チェック
+const issues = validateQuestions({ questions: allQuestions, sourceFiles, explanations, publicDir });
+const errorCount = issues.filter(issue => issue.severity === 'error').length;
+const warningCount = issues.length - errorCount;
+
+fs.writeFileSync(reportPath, JSON.stringify({
+  generatedAt: new Date().toISOString(),
+  summary: { questions: allQuestions.length, errors: errorCount, warnings: warningCount },
+  issues
+}, null, 2), 'utf-8');
+
+console.log(`整合性チェック: エラー ${errorCount}件 / 警告 ${warningCount}件`);
+// 画面には先頭の一部だけ表示（全件はレポートで確認）
+const MAX_PRINTED_ISSUES = 20;
+for (const issue of issues.slice(0, MAX_PRINTED_ISSUES)) {
+  const label = issue.severity === 'error' ? 'エラー' : '警告';
+  console.log(`  [${label}] ${issue.questionId}: ${issue.message}`);
+}
+if (issues.length > MAX_PRINTED_ISSUES) {
+  console.log(`  ...他 ${issues.length - MAX_PRINTED_ISSUES}件`);
+}
+console.log(`  レポート: ${reportPath}`);
+
+if (errorCount > 0) {
+  console.error('エラーがあるため統合を中止しました');
+  process.exit(1);
+}
+
 // 回次・番号でソート
 allQuestions.sort((a, b) => {
   if (a.year !== b.year) return a.year - b.year;
@@ -95,11 +147,70 @@ allQuestions.sort((a, b) => {
   return a.number - b.number;
 });
 
+// 科目分類（category / keywords を設定）
+const classification = classifyQuestions(allQuestions, explanations);
+const countBySource = {};
+for (const record of classification.records) {
+  countBySource[record.source || 'unclassified'] = (countBySource[record.source || 'unclassified'] || 0) + 1;
+}
+
+fs.writeFileSync(classificationReportPath, JSON.stringify({
+  generatedAt: new Date().toISOString(),
+  summary: {
+    questions: allQuestions.length,
+    bySource: countBySource,
+    lowConfidence: classification.lowConfidence.length,
+    unclassified: classification.unclassified.length
+  },
+  problems: classification.problems,
+  lowConfidence: classification.lowConfidence,
+  unclassified: classification.unclassified,
+  records: classification.records
+}, null, 2), 'utf-8');
+
+console.log('科目分類:');
+console.log(`  上書き: ${countBySource.override || 0} / 解説: ${countBySource.explanation || 0} / 規則: ${countBySource.rules || 0} / 前後の問題: ${countBySource.neighbor || 0} / 未分類: ${countBySource.unclassified || 0}`);
+console.log(`  要確認（確信度が低い）: ${classification.lowConfidence.length}問`);
+for (const problem of classification.problems) {
+  console.log(`  [警告] ${problem.questionId || '-'}: ${problem.message}`);
+}
+console.log(`  レポート: ${classificationReportPath}`);
+
 // 画像付き問題数をカウント
 const withImages = allQuestions.filter(q => q.images.length > 0).length;
 
-// 出力データ構造
-const output = {
+// アプリで表示対象になる問題か（questionService の有効判定と同じ条件）
+function isDisplayable(q) {
+  return q.questionText && q.choices && Object.keys(q.choices).length > 0 && (q.answer || q.isExcluded);
+}
+
+// 回次ごとに振り分け
+const shards = new Map();
+const getShard = (year) => {
+  if (!shards.has(year)) {
+    shards.set(year, { year, questions: [], explanations: {} });
+  }
+  return shards.get(year);
+};
+
+for (const q of allQuestions) {
+  getShard(q.year).questions.push(q);
+}
+for (const [id, explanation] of Object.entries(explanations)) {
+  getShard(parseInt(id)).explanations[id] = explanation;
+}
+
+// シャードを書き出し（古いシャードは残さない）
+fs.rmSync(shardsDir, { recursive: true, force: true });
+fs.mkdirSync(shardsDir, { recursive: true });
+const years = [...shards.keys()].sort((a, b) => a - b);
+for (const year of years) {
+  const shard = shards.get(year);
+  fs.writeFileSync(path.join(shardsDir, `${year}.json`), JSON.stringify(shard), 'utf-8');
+}
+
+// 目録（メタデータ + 回次ごとの件数）
+const manifest = {
   meta: {
     version: "1.1.0",
     lastUpdated: new Date().toISOString().split('T')[0],
@@ -110,14 +221,22 @@ const output = {
       max: Math.max(...allQuestions.map(q => q.year))
     }
   },
-  questions: allQuestions
+  years: years.map(year => {
+    const shard = shards.get(year);
+    return {
+      year,
+      questionCount: shard.questions.filter(isDisplayable).length,
+      explanationCount: Object.keys(shard.explanations).length
+    };
+  })
 };
 
 // 書き出し
-fs.writeFileSync(outputPath, JSON.stringify(output, null, 2), 'utf-8');
+fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
 
 console.log(`完了！`);
-console.log(`  総問題数: ${output.meta.totalCount}`);
-console.log(`  画像付き: ${output.meta.withImagesCount}`);
-console.log(`  対象回次: ${output.meta.yearRange.min}回〜${output.meta.yearRange.max}回`);
-console.log(`  出力先: ${outputPath}`);
+console.log(`  総問題数: ${manifest.meta.totalCount}`);
+console.log(`  画像付き: ${manifest.meta.withImagesCount}`);
+console.log(`  対象回次: ${manifest.meta.yearRange.min}回〜${manifest.meta.yearRange.max}回`);
+console.log(`  目録: ${manifestPath}`);
+console.log(`  シャード: ${shardsDir}（${years.length}回次）`);
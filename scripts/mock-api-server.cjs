@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+/**
+ * 問題データAPIのモックサーバー
+ * merge-questions.cjs が生成した目録と分割データをまとめて返す（VITE_DATA_SOURCE=http で接続確認する用）
+ *
+ * 使い方: npm run mock-api [-- --port 3001]
+ */
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+// ポート指定（--port 3001）
+const portIndex = process.argv.indexOf('--port');
+const port = portIndex !== -1 ? parseInt(process.argv[portIndex + 1]) : 3001;
+
+const dataDir = path.join(__dirname, '../src/data');
+
+// データ読み込み（起動時に1回、全回次の分割データを結合）
+const manifest = JSON.parse(fs.readFileSync(path.join(dataDir, 'manifest.json'), 'utf-8'));
+const questionsData = { meta: manifest.meta, questions: [] };
+const explanations = {};
+for (const { year } of manifest.years) {
+  const shard = JSON.parse(fs.readFileSync(path.join(dataDir, 'shards', `${year}.json`), 'utf-8'));
+  questionsData.questions.push(...shard.questions);
+  Object.assign(explanations, shard.explanations);
+}
+
+// JSONレスポンスを返す
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET',
+    });
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    sendJson(res, 405, { error: 'Method Not Allowed' });
+    return;
+  }
+
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const [resource, id] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  switch (resource) {
+    case 'meta':
+      sendJson(res, 200, questionsData.meta);
+      return;
+
+    case 'questions':
+      if (id) {
+        const question = questionsData.questions.find(q => q.id === id);
+        question ? sendJson(res, 200, question) : sendJson(res, 404, { error: 'Not Found' });
+      } else {
+        sendJson(res, 200, questionsData.questions);
+      }
+      return;
+
+    case 'explanations':
+      if (id) {
+        explanations[id] ? sendJson(res, 200, explanations[id]) : sendJson(res, 404, { error: 'Not Found' });
+      } else {
+        sendJson(res, 200, explanations);
+      }
+      return;
+
+    default:
+      sendJson(res, 404, { error: 'Not Found' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`モックAPIサーバー起動: http://localhost:${port}`);
+  console.log(`  問題数: ${questionsData.questions.length}`);
+  console.log(`  解説数: ${Object.keys(explanations).length}`);
+});
@@ -0,0 +1,85 @@
+/**
+ * 統合前の問題データの整合性チェック（merge-questions.cjs から呼び出す）
+ *
+ * error   … そのまま出すと誤った採点や表示崩れになるもの（統合を中止する）
+ * warning … 表示はできるが確認が必要なもの
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// 計算問題（答えが数値）かどうか
+function isNumericAnswer(answer) {
+  return /^[0-9.]+$/.test(answer);
+}
+
+// 並び替え問題（答えが5文字のa-e）かどうか
+function isOrderingAnswer(answer) {
+  return /^[A-Ea-e]{5}$/.test(answer);
+}
+
+// 問題（アプリ用に変換済み）と解説をチェックし、問題点の一覧を返す
+// sourceFiles: 問題ID → 読み込み元ファイル名（レポートで元データを辿れるように）
+function validateQuestions({ questions, sourceFiles, explanations, publicDir }) {
+  const issues = [];
+  const report = (severity, code, questionId, message) => {
+    issues.push({ severity, code, questionId, file: sourceFiles.get(questionId) || null, message });
+  };
+
+  // 問題IDの重複
+  const seen = new Set();
+  for (const q of questions) {
+    if (seen.has(q.id)) {
+      report('error', 'duplicate_id', q.id, `問題ID ${q.id} が重複しています`);
+    }
+    seen.add(q.id);
+  }
+
+  for (const q of questions) {
+    const choiceKeys = Object.keys(q.choices || {});
+
+    // 問題文・選択肢が空（アプリ側で表示対象から外れる）
+    if (!q.questionText || choiceKeys.length === 0) {
+      report('warning', 'empty_question', q.id, '問題文または選択肢が空のため表示されません');
+      continue;
+    }
+
+    // 正答のチェック（採点除外・計算問題は対象外）
+    const answer = q.answer.trim();
+    if (!q.isExcluded && !isNumericAnswer(answer)) {
+      const letters = answer.toLowerCase().split('');
+      const unknown = letters.filter(letter => !choiceKeys.includes(letter));
+      if (unknown.length > 0) {
+        report('error', 'answer_not_in_choices', q.id,
+          `正答 "${q.answer}" に選択肢にない記号があります（${[...new Set(unknown)].join(', ')}）`);
+      } else if (!isOrderingAnswer(answer) && letters.length !== q.choiceCount) {
+        report('error', 'answer_count_mismatch', q.id,
+          `正答 "${q.answer}" の数が選択数（${q.choiceCount}つ選べ）と一致しません`);
+      }
+    }
+
+    // 図の参照があるのに画像がない
+    if (q.figureRefs.length > 0 && q.images.length === 0) {
+      report('warning', 'figure_without_image', q.id,
+        `図の参照（${q.figureRefs.join(', ')}）に対応する画像がありません`);
+    }
+
+    // 画像ファイルの存在
+    for (const image of q.images) {
+      if (!fs.existsSync(path.join(publicDir, image))) {
+        report('error', 'missing_image_file', q.id, `画像ファイルが見つかりません（${image}）`);
+      }
+    }
+  }
+
+  // 存在しない問題IDの解説
+  for (const id of Object.keys(explanations)) {
+    if (!seen.has(id)) {
+      report('error', 'unknown_explanation_id', id, `解説 ${id} に対応する問題がありません`);
+    }
+  }
+
+  return issues;
+}
+
+module.exports = { validateQuestions };
@@ -1,9 +1,55 @@
 // メインアプリケーション - チャット型UI
 
+import { useState } from 'react';
 import { ChatUI } from './components/ChatUI';
+import { FlashcardReview } from './components/FlashcardReview';
+import { AnalyticsScreen } from './components/AnalyticsScreen';
+import { HomeScreen } from './components/HomeScreen';
+import { StudyMode } from './components/StudyMode';
+import { MockExam } from './components/MockExam';
+import { QuizBuilder } from './components/QuizBuilder';
+
+// 表示中の画面
+type View = 'feed' | 'home' | 'study' | 'quizBuilder' | 'quiz' | 'mockExam' | 'flashcards' | 'analytics';
 
 function App() {
-  return <ChatUI />;
+  const [view, setView] = useState<View>('feed');
+
+  if (view === 'home') {
+    return (
+      <HomeScreen
+        onStartStudy={() => setView('study')}
+        onStartSearch={() => setView('feed')}
+        onStartMockExam={() => setView('mockExam')}
+        onOpenQuizBuilder={() => setView('quizBuilder')}
+      />
+    );
+  }
+  if (view === 'study') {
+    return <StudyMode onExit={() => setView('home')} />;
+  }
+  if (view === 'quizBuilder') {
+    return <QuizBuilder onStartQuiz={() => setView('quiz')} onExit={() => setView('home')} />;
+  }
+  if (view === 'quiz') {
+    return <StudyMode quiz onExit={() => setView('quizBuilder')} />;
+  }
+  if (view === 'mockExam') {
+    return <MockExam onExit={() => setView('home')} />;
+  }
+  if (view === 'flashcards') {
+    return <FlashcardReview onExit={() => setView('feed')} />;
+  }
+  if (view === 'analytics') {
+    return <AnalyticsScreen onStartQuiz={() => setView('quiz')} onExit={() => setView('feed')} />;
+  }
+  return (
+    <ChatUI
+      onOpenHome={() => setView('home')}
+      onOpenFlashcards={() => setView('flashcards')}
+      onOpenAnalytics={() => setView('analytics')}
+    />
+  );
 }
 
 export default App;
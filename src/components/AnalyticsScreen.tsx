@@ -0,0 +1,364 @@
+// 学習分析画面 - 科目・回次・セッション・必修別の正答率と網羅率、自信度と解答時間
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import type { Question } from '../types/question';
+import { getQuestionRepository } from '../services/questionRepository';
+import { buildAnalytics, type CalibrationPoint, type GroupStats, type TimeStats, type TrendPoint } from '../services/analytics';
+import { DEFAULT_QUIZ_CONFIG } from '../services/quizBuilder';
+import { isKnownCorrect } from '../services/confidence';
+import { TARGET_TIME_PER_QUESTION_MS, formatElapsed } from '../services/timing';
+import { useProgressStore } from '../store/useProgressStore';
+import { useQuizStore } from '../store/useQuizStore';
+import { StudyCalendar } from './StudyCalendar';
+import { StreakBadge } from './StreakBadge';
+
+interface Props {
+  onStartQuiz: () => void;
+  onExit: () => void;
+}
+
+type Breakdown = 'subject' | 'year' | 'session' | 'hisshu';
+
+const BREAKDOWN_LABELS: Record<Breakdown, string> = {
+  subject: '科目',
+  year: '回次',
+  session: 'セッション',
+  hisshu: '必修',
+};
+
+// 正答率を % 表示
+function formatPercent(rate: number | null): string {
+  return rate === null ? '-' : `${Math.round(rate * 100)}%`;
+}
+
+export function AnalyticsScreen({ onStartQuiz, onExit }: Props) {
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [breakdown, setBreakdown] = useState<Breakdown>('subject');
+  const { attempts, legacy, totalLuckyGuesses } = useProgressStore();
+  const { startQuiz } = useQuizStore();
+
+  // 網羅率の分母に全問題が必要
+  const loadQuestions = useCallback(() => {
+    setIsLoading(true);
+    setLoadError(null);
+    getQuestionRepository().list()
+      .then(setQuestions)
+      .catch(error => setLoadError(error instanceof Error ? error.message : String(error)))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadQuestions();
+  }, [loadQuestions]);
+
+  const analytics = useMemo(() => buildAnalytics(attempts, questions), [attempts, questions]);
+  const questionsById = useMemo(() => new Map(questions.map(q => [q.id, q])), [questions]);
+
+  const groups: Record<Breakdown, GroupStats[]> = {
+    subject: analytics.bySubject,
+    year: analytics.byYear,
+    session: analytics.bySession,
+    hisshu: analytics.byHisshu,
+  };
+
+  // 正解したが遅かった問題を、演習として解き直す
+  const handleDrillSlow = () => {
+    const questionIds = analytics.slowCorrect.map(s => s.questionId);
+    startQuiz(questionIds, { ...DEFAULT_QUIZ_CONFIG, count: questionIds.length }, '時間のかかった問題');
+    onStartQuiz();
+  };
+
+  // 正答率は勘で当たった正解を除いて計算し、勘も含めた値は補足に出す
+  const totalCorrect = attempts.filter(a => a.isCorrect).length;
+  const knownCorrect = attempts.filter(isKnownCorrect).length;
+  const answeredCount = analytics.byYear.reduce((sum, g) => sum + g.answered, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      {/* ヘッダー */}
+      <header className="bg-white border-b border-gray-200 px-4 py-3 flex items-center justify-between">
+        <button onClick={onExit} className="text-gray-600 hover:text-gray-800 font-medium">
+          ✕ 閉じる
+        </button>
+        <span className="text-sm font-medium text-gray-700">学習分析</span>
+        <span className="w-12" />
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4">
+        <div className="max-w-xl mx-auto space-y-4">
+          {loadError ? (
+            <div className="py-16 text-center text-gray-500">
+              <p>データを読み込めませんでした</p>
+              <p className="text-xs mt-2">{loadError}</p>
+              <button onClick={loadQuestions} className="mt-4 px-5 py-2 rounded-xl bg-primary text-white font-medium">
+                再読み込み
+              </button>
+            </div>
+          ) : isLoading ? (
+            <div className="py-16 text-center text-gray-500">読み込み中...</div>
+          ) : (
+            <>
+              {/* 全体 */}
+              <section className="bg-white rounded-xl p-4 shadow-sm grid grid-cols-3 text-center">
+                <div>
+                  <p className="text-2xl font-bold text-gray-800">{attempts.length}</p>
+                  <p className="text-xs text-gray-500">解答数</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-green-600">
+                    {formatPercent(attempts.length > 0 ? knownCorrect / attempts.length : null)}
+                  </p>
+                  <p className="text-xs text-gray-500">正答率</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-primary">
+                    {formatPercent(questions.length > 0 ? answeredCount / questions.length : null)}
+                  </p>
+                  <p className="text-xs text-gray-500">網羅率</p>
+                </div>
+              </section>
+              {totalLuckyGuesses > 0 && (
+                <p className="text-xs text-gray-500 px-1">
+                  正答率は勘で当たった {totalLuckyGuesses}回 を除いたもの（含めると{' '}
+                  {formatPercent(totalCorrect / attempts.length)}）
+                </p>
+              )}
+              {legacy && legacy.totalAnswered > 0 && (
+                <p className="text-xs text-gray-500 px-1">
+                  解答履歴を記録する前の {legacy.totalAnswered}問 は集計に含まれません
+                </p>
+              )}
+
+              {/* 学習カレンダー */}
+              <section className="bg-white rounded-xl p-4 shadow-sm">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-sm font-bold text-gray-700">学習カレンダー</h2>
+                  <StreakBadge />
+                </div>
+                <StudyCalendar questionsById={questionsById} />
+              </section>
+
+              {/* 推移 */}
+              <section className="bg-white rounded-xl p-4 shadow-sm">
+                <h2 className="text-sm font-bold text-gray-700 mb-2">正答率の推移（直近7日間の平均）</h2>
+                <TrendChart points={analytics.trend} />
+              </section>
+
+              {/* 苦手科目 */}
+              <section className="bg-white rounded-xl p-4 shadow-sm">
+                <h2 className="text-sm font-bold text-gray-700 mb-2">苦手な科目</h2>
+                {analytics.weakestSubjects.length === 0 ? (
+                  <p className="text-sm text-gray-500">もう少し解くと表示されます</p>
+                ) : (
+                  <ol className="space-y-1">
+                    {analytics.weakestSubjects.map((subject, i) => (
+                      <li key={subject.key} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-700">{i + 1}. {subject.label}</span>
+                        <span className="font-medium text-red-600">{formatPercent(subject.accuracy)}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+
+              {/* 自信度と正答率 */}
+              <section className="bg-white rounded-xl p-4 shadow-sm">
+                <h2 className="text-sm font-bold text-gray-700 mb-2">自信度と正答率</h2>
+                {analytics.calibration.every(point => point.attempts === 0) ? (
+                  <p className="text-sm text-gray-500">解答後に自信度を選ぶと表示されます</p>
+                ) : (
+                  <CalibrationChart points={analytics.calibration} />
+                )}
+              </section>
+
+              {/* 解答時間 */}
+              <section className="bg-white rounded-xl p-4 shadow-sm">
+                <h2 className="text-sm font-bold text-gray-700 mb-1">解答時間</h2>
+                <p className="text-xs text-gray-500 mb-3">
+                  1問あたりの平均（目安 {formatElapsed(TARGET_TIME_PER_QUESTION_MS)}）
+                </p>
+                {analytics.timeByKind.length === 0 ? (
+                  <p className="text-sm text-gray-500">解答時間を記録した解答がまだありません</p>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="space-y-1">
+                      {analytics.timeByKind.map(stats => (
+                        <TimeRow key={stats.key} stats={stats} />
+                      ))}
+                    </div>
+                    <div className="border-t border-gray-100 pt-3 space-y-1">
+                      {analytics.timeBySubject.map(stats => (
+                        <TimeRow key={stats.key} stats={stats} />
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </section>
+
+              {/* 正解したが遅かった問題 */}
+              <section className="bg-white rounded-xl p-4 shadow-sm">
+                <div className="flex items-center justify-between mb-2">
+                  <h2 className="text-sm font-bold text-gray-700">正解したが時間のかかった問題</h2>
+                  {analytics.slowCorrect.length > 0 && (
+                    <button
+                      onClick={handleDrillSlow}
+                      className="px-3 py-1 rounded-full text-xs font-medium bg-primary text-white"
+                    >
+                      解き直す
+                    </button>
+                  )}
+                </div>
+                {analytics.slowCorrect.length === 0 ? (
+                  <p className="text-sm text-gray-500">目安時間を超えて正解した問題はありません</p>
+                ) : (
+                  <ol className="space-y-1">
+                    {analytics.slowCorrect.map(slow => (
+                      <li key={slow.questionId} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-700">{slow.label}</span>
+                        <span className="font-medium text-red-600 tabular-nums">{formatElapsed(slow.timeSpentMs)}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+
+              {/* 内訳 */}
+              <section className="bg-white rounded-xl p-4 shadow-sm">
+                <div className="flex gap-2 mb-3">
+                  {(Object.keys(BREAKDOWN_LABELS) as Breakdown[]).map(key => (
+                    <button
+                      key={key}
+                      onClick={() => setBreakdown(key)}
+                      className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                        breakdown === key ? 'bg-primary text-white' : 'bg-gray-100 text-gray-600'
+                      }`}
+                    >
+                      {BREAKDOWN_LABELS[key]}
+                    </button>
+                  ))}
+                </div>
+                <div className="space-y-3">
+                  {groups[breakdown].map(group => (
+                    <GroupRow key={group.key} group={group} />
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+// 自信度ごとの正答率の棒グラフ
+function CalibrationChart({ points }: { points: CalibrationPoint[] }) {
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {points.map(point => (
+        <div key={point.confidence} className="flex flex-col items-center">
+          <span className="text-sm font-medium text-gray-800">{formatPercent(point.accuracy)}</span>
+          <div className="w-10 h-24 bg-gray-100 rounded-t-md flex items-end overflow-hidden mt-1">
+            <div
+              className="w-full bg-primary rounded-t-md"
+              style={{ height: `${Math.round((point.accuracy ?? 0) * 100)}%` }}
+            />
+          </div>
+          <span className="text-xs text-gray-700 mt-1">{point.label}</span>
+          <span className="text-xs text-gray-400">{point.attempts}回</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// 解答時間の1行（目安を超えていれば赤）
+function TimeRow({ stats }: { stats: TimeStats }) {
+  const isOver = stats.averageTimeMs !== null && stats.averageTimeMs > TARGET_TIME_PER_QUESTION_MS;
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-gray-700">{stats.label}</span>
+      <span className="text-gray-500">
+        <span className="text-xs mr-2">{stats.timed}回</span>
+        <span className={`font-medium tabular-nums ${isOver ? 'text-red-600' : 'text-gray-800'}`}>
+          {stats.averageTimeMs === null ? '-' : formatElapsed(stats.averageTimeMs)}
+        </span>
+      </span>
+    </div>
+  );
+}
+
+// 内訳の1行（正答率バーと網羅率）
+function GroupRow({ group }: { group: GroupStats }) {
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span className="text-gray-700">{group.label}</span>
+        <span className="text-gray-500 text-xs">
+          <span className="font-medium text-gray-800">{formatPercent(group.accuracy)}</span>
+          {' '}・ {group.answered}/{group.total}問（{formatPercent(group.coverage)}）
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-green-500 rounded-full"
+          style={{ width: `${Math.round((group.accuracy ?? 0) * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// 正答率の折れ線と日ごとの解答数
+function TrendChart({ points }: { points: TrendPoint[] }) {
+  const width = 300;
+  const height = 100;
+  const maxAttempts = Math.max(1, ...points.map(p => p.attempts));
+  const step = width / Math.max(1, points.length - 1);
+
+  // 解答のない期間は線を切る
+  const segments: string[] = [];
+  let current: string[] = [];
+  points.forEach((p, i) => {
+    if (p.accuracy === null) {
+      if (current.length > 0) segments.push(current.join(' '));
+      current = [];
+      return;
+    }
+    current.push(`${(i * step).toFixed(1)},${(height - p.accuracy * height).toFixed(1)}`);
+  });
+  if (current.length > 0) segments.push(current.join(' '));
+
+  if (points.every(p => p.attempts === 0)) {
+    return <p className="text-sm text-gray-500">まだ解答がありません</p>;
+  }
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-28" preserveAspectRatio="none">
+        {/* 日ごとの解答数 */}
+        {points.map((p, i) => (
+          <rect
+            key={p.date}
+            x={i * step - step * 0.3}
+            y={height - (p.attempts / maxAttempts) * height * 0.4}
+            width={step * 0.6}
+            height={(p.attempts / maxAttempts) * height * 0.4}
+            className="fill-blue-100"
+          />
+        ))}
+        {/* 50% の目安線 */}
+        <line x1={0} y1={height / 2} x2={width} y2={height / 2} className="stroke-gray-200" strokeDasharray="4 4" />
+        {segments.map((segment, i) => (
+          <polyline key={i} points={segment} fill="none" className="stroke-green-500" strokeWidth={2} />
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{points[0].date.slice(5)}</span>
+        <span>{points[points.length - 1].date.slice(5)}</span>
+      </div>
+    </div>
+  );
+}
@@ -2,55 +2,63 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import html2canvas from 'html2canvas';
-import type { Question } from '../types/question';
-import { getAllQuestions, filterQuestions, getYearRange, getExplanation } from '../services/questionService';
+import type { Question, QuestionsManifest } from '../types/question';
+import {
+  validateSearchQuery,
+  getYearRange,
+  type Explanation,
+  type QuestionSearchResult,
+  type SearchScope,
+  type SearchField,
+  type QuerySyntaxError,
+} from '../services/questionService';
+import { getQuestionRepository } from '../services/questionRepository';
+import { getAnswerKey, gradeAnswer, isCorrectChoice, formatAnswer, type AnswerResponse, type GradeResult } from '../services/grading';
 import { useCustomTabsStore } from '../store/useCustomTabsStore';
 import { useSearchHistoryStore } from '../store/useSearchHistoryStore';
-import { useFolderStore } from '../store/useFolderStore';
+import { useFolderStore, isSystemFolder, MISTAKES_FOLDER_ID, MAX_MASTERY_THRESHOLD } from '../store/useFolderStore';
+import { useFlashcardStore } from '../store/useFlashcardStore';
+import { useProgressStore } from '../store/useProgressStore';
 import { subjectCategories, getSubjectById } from '../data/subjects';
+import { MasteryBadge } from './MasteryBadge';
+import { ConfidencePicker } from './ConfidencePicker';
 
 // 1回の読み込みで表示する問題数
 const QUESTIONS_PER_LOAD = 20;
 
-// 問題タイプの判定
-type QuestionType = 'calculation' | 'ordering' | 'normal';
-
-function getQuestionType(question: Question): QuestionType {
-  const answer = question.answer;
-
-  // 計算問題: 答えが数字のみ
-  if (/^[0-9.]+$/.test(answer.trim())) {
-    return 'calculation';
-  }
-
-  // 並び替え問題: 答えが5文字のa-e（順序が重要）
-  if (/^[A-Ea-e]{5}$/.test(answer)) {
-    return 'ordering';
-  }
-
-  return 'normal';
+// 新しい順（year降順、session降順、number降順）に並べる
+function sortByNewest(questions: Question[]): Question[] {
+  return [...questions].sort((a, b) => {
+    if (a.year !== b.year) return b.year - a.year;
+    if (a.session !== b.session) return b.session.localeCompare(a.session);
+    return b.number - a.number;
+  });
 }
 
-// 並び替え問題の答えを読みやすい形式に変換
-function formatOrderingAnswer(answer: string, choices: Record<string, string>): string {
-  return answer
-    .toLowerCase()
-    .split('')
-    .map(key => choices[key] || key.toUpperCase())
-    .join('→');
+interface ChatUIProps {
+  onOpenHome: () => void;
+  onOpenFlashcards: () => void;
+  onOpenAnalytics: () => void;
 }
 
-export function ChatUI() {
+export function ChatUI({ onOpenHome, onOpenFlashcards, onOpenAnalytics }: ChatUIProps) {
   const [questions, setQuestions] = useState<Question[]>([]);
   const [displayCount, setDisplayCount] = useState(QUESTIONS_PER_LOAD);
   const [imageGallery, setImageGallery] = useState<{ images: string[]; index: number } | null>(null);
   const [resetKey, setResetKey] = useState(0); // カードの状態リセット用
+  const [manifest, setManifest] = useState<QuestionsManifest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pendingYears, setPendingYears] = useState<number[]>([]); // スクロールで読み込む残りの回次
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
 
   // フィルター関連（初回起動時はモーダルを表示）
   const [showFilterModal, setShowFilterModal] = useState(true);
   const [activeFilter, setActiveFilter] = useState<string | { type: 'custom'; tabId: string } | { type: 'folder'; folderId: string }>('');
   const [activeYears, setActiveYears] = useState<number[]>([]);
-  const [activeSortOrder, setActiveSortOrder] = useState<'newest' | 'random'>('newest');
+  const [activeSortOrder, setActiveSortOrder] = useState<SortOrder | null>(null); // null: キーワードに応じて自動
+  const [activeScope, setActiveScope] = useState<SearchScope>('questions');
+  const [hitsById, setHitsById] = useState<Map<string, QuestionSearchResult>>(new Map());
   const [activeHisshuOnly, setActiveHisshuOnly] = useState(false);
 
   // カスタムタブ関連
@@ -64,73 +72,110 @@ export function ChatUI() {
 
   const mainRef = useRef<HTMLElement>(null);
   const lastScrollY = useRef(0);
+  const loadRequestId = useRef(0); // 古い読み込み結果で上書きしないため
   const [headerVisible, setHeaderVisible] = useState(true);
 
 
   const { tabs: customTabs } = useCustomTabsStore();
   const { history: searchHistory, addSearch, removeSearch: removeSearchHistory } = useSearchHistoryStore();
   const { folders, deleteFolder } = useFolderStore();
+  const userFolderCount = folders.filter(f => !isSystemFolder(f.id)).length;
+  const dueCardCount = useFlashcardStore(state => state.getDueQueue().length);
 
   // 初期読み込み
   useEffect(() => {
+    getQuestionRepository().manifest()
+      .then(setManifest)
+      .catch(error => setLoadError(error instanceof Error ? error.message : String(error)));
     loadQuestions('');
   }, []);
 
   // 問題を読み込み
-  const loadQuestions = useCallback((
+  const loadQuestions = useCallback(async (
     filter: string | { type: 'custom'; tabId: string } | { type: 'folder'; folderId: string },
     years: number[] = [],
-    sortOrder: 'newest' | 'random' = 'newest',
-    hisshuOnly: boolean = false
+    chosenSortOrder: SortOrder | null = null,
+    hisshuOnly: boolean = false,
+    scope: SearchScope = 'questions'
   ) => {
-    const allQ = getAllQuestions();
+    const requestId = ++loadRequestId.current;
+    const sortOrder = chosenSortOrder ?? defaultSortOrder(typeof filter === 'string' ? filter : '');
+    const repository = getQuestionRepository();
     const currentFolders = useFolderStore.getState().folders;
+    setIsLoading(true);
+    setLoadError(null);
 
     let filtered: Question[];
     let useCustomSort = false; // フォルダなど独自ソートを使う場合
+    const hitMap = new Map<string, QuestionSearchResult>();
+    let remainingYears: number[] = [];
 
-    if (typeof filter === 'string') {
-      // 通常のキーワードフィルタ + 年度フィルタ + 必修フィルタ
-      filtered = filterQuestions(allQ, filter, years, [], hisshuOnly);
-    } else if (filter.type === 'folder') {
-      // フォルダフィルタ（追加順の逆順＝新しいものが上）
-      const folder = currentFolders.find(f => f.id === filter.folderId);
-      if (folder) {
-        const reversedIds = [...folder.questionIds].reverse();
-        filtered = reversedIds
-          .map(id => allQ.find(q => q.id === id))
-          .filter((q): q is Question => q !== undefined);
-        useCustomSort = true;
-      } else {
-        filtered = [];
-      }
-    } else {
-      // カスタムタブのフィルタ
-      const tab = customTabs.find(t => t.id === filter.tabId);
-      if (tab) {
-        // 選択された科目名を取得
-        const subjectNames = tab.subjectIds.map(id => {
-          const subject = getSubjectById(id);
-          return subject ? subject.name : null;
-        }).filter(Boolean) as string[];
-
-        // categoryまたはkeywords配列にマッチする問題を抽出
-        filtered = allQ.filter(q => {
-          // categoryフィールドでマッチ
-          if (q.category && subjectNames.includes(q.category)) {
-            return true;
-          }
-          // keywordsフィールド（複数科目）でマッチ
-          if (q.keywords && Array.isArray(q.keywords)) {
-            return q.keywords.some(kw => subjectNames.includes(kw));
-          }
-          return false;
-        });
+    try {
+      if (typeof filter === 'string') {
+        // キーワードなしの新しい順は最新の回次だけ読み込み、残りはスクロールに応じて読み込む
+        let queryYears = years;
+        if (!filter.trim() && sortOrder === 'newest') {
+          const manifest = await repository.manifest();
+          const feedYears = (years.length > 0 ? [...years] : manifest.years.map(y => y.year))
+            .sort((a, b) => b - a);
+          queryYears = feedYears.slice(0, 1);
+          remainingYears = feedYears.slice(1);
+        }
+
+        // 通常のキーワードフィルタ + 年度フィルタ + 必修フィルタ（結果はスコアの高い順）
+        const hits = await repository.query({ searchText: filter, years: queryYears, hisshuOnly, scope });
+        hits.forEach(hit => hitMap.set(hit.question.id, hit));
+        filtered = hits.map(hit => hit.question);
+        // スコアがない場合（キーワードなし・問題番号検索）は新しい順にする
+        useCustomSort = sortOrder === 'relevance' && hits.some(hit => hit.score > 0);
+      } else if (filter.type === 'folder') {
+        // フォルダフィルタ（追加順の逆順＝新しいものが上）
+        const folder = currentFolders.find(f => f.id === filter.folderId);
+        if (folder) {
+          const reversedIds = [...folder.questionIds].reverse();
+          const found = await Promise.all(reversedIds.map(id => repository.getById(id)));
+          filtered = found.filter((q): q is Question => q !== null);
+          useCustomSort = true;
+        } else {
+          filtered = [];
+        }
       } else {
-        filtered = allQ;
+        // カスタムタブのフィルタ
+        const allQ = await repository.list();
+        const tab = customTabs.find(t => t.id === filter.tabId);
+        if (tab) {
+          // 選択された科目名を取得
+          const subjectNames = tab.subjectIds.map(id => {
+            const subject = getSubjectById(id);
+            return subject ? subject.name : null;
+          }).filter(Boolean) as string[];
+
+          // categoryまたはkeywords配列にマッチする問題を抽出
+          filtered = allQ.filter(q => {
+            // categoryフィールドでマッチ
+            if (q.category && subjectNames.includes(q.category)) {
+              return true;
+            }
+            // keywordsフィールド（複数科目）でマッチ
+            if (q.keywords && Array.isArray(q.keywords)) {
+              return q.keywords.some(kw => subjectNames.includes(kw));
+            }
+            return false;
+          });
+        } else {
+          filtered = allQ;
+        }
       }
+    } catch (error) {
+      if (requestId !== loadRequestId.current) return;
+      setLoadError(error instanceof Error ? error.message : String(error));
+      setIsLoading(false);
+      return;
     }
 
+    // 後から発行された読み込みがあれば破棄
+    if (requestId !== loadRequestId.current) return;
+
     // ソート処理
     let result: Question[];
     if (useCustomSort) {
@@ -138,26 +183,45 @@ export function ChatUI() {
     } else if (sortOrder === 'random') {
       result = [...filtered].sort(() => Math.random() - 0.5);
     } else {
-      // 新しい順（year降順、session降順、number降順）
-      result = [...filtered].sort((a, b) => {
-        if (a.year !== b.year) return b.year - a.year;
-        if (a.session !== b.session) return b.session.localeCompare(a.session);
-        return b.number - a.number;
-      });
+      result = sortByNewest(filtered);
     }
 
     setQuestions(result);
+    setPendingYears(remainingYears);
+    setHitsById(hitMap);
     setActiveFilter(filter);
     setActiveYears(years);
-    setActiveSortOrder(sortOrder);
+    setActiveSortOrder(chosenSortOrder);
     setActiveHisshuOnly(hisshuOnly);
+    setActiveScope(scope);
     setDisplayCount(QUESTIONS_PER_LOAD);
     setResetKey(prev => prev + 1); // カードの状態をリセット
+    setIsLoading(false);
 
     // 上にスクロール
     mainRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
   }, [customTabs]);
 
+  // 表示が末尾に達したら次の回次を読み込む（新しい順の一覧のみ）
+  useEffect(() => {
+    if (pendingYears.length === 0 || isLoadingMore || displayCount < questions.length) return;
+
+    const requestId = loadRequestId.current;
+    const [year, ...rest] = pendingYears;
+    setIsLoadingMore(true);
+    getQuestionRepository().query({ years: [year], hisshuOnly: activeHisshuOnly })
+      .then(hits => {
+        if (requestId !== loadRequestId.current) return;
+        setQuestions(prev => [...prev, ...sortByNewest(hits.map(hit => hit.question))]);
+        setPendingYears(rest);
+      })
+      .catch(error => {
+        if (requestId !== loadRequestId.current) return;
+        setLoadError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => setIsLoadingMore(false));
+  }, [pendingYears, isLoadingMore, displayCount, questions.length, activeHisshuOnly]);
+
   // スクロール方向でヘッダー表示/非表示
   useEffect(() => {
     const main = mainRef.current;
@@ -225,24 +289,25 @@ export function ChatUI() {
           {folders.map((folder, index) => {
             const isActive = typeof activeFilter === 'object' && activeFilter.type === 'folder' && activeFilter.folderId === folder.id;
             const isBookmark = folder.id === 'bookmark';
+            const isSystem = isSystemFolder(folder.id);
             return (
               <div
                 key={folder.id}
-                className={`relative flex-shrink-0 ${deleteMode && !isBookmark ? 'animate-wiggle' : ''}`}
+                className={`relative flex-shrink-0 ${deleteMode && !isSystem ? 'animate-wiggle' : ''}`}
                 style={{
                   animationDelay: deleteMode ? `${index * 0.05}s` : undefined,
                 }}
               >
-                {/* 削除ボタン - 削除モード時のみ（ブックマークは削除不可） */}
-                {deleteMode && !isBookmark && (
+                {/* 削除ボタン - 削除モード時のみ（ブックマーク・間違えた問題は削除不可） */}
+                {deleteMode && !isSystem && (
                   <div
                     className="absolute -top-2 -left-1 z-50"
                     onClick={() => {
                       deleteFolder(folder.id);
                       if (isActive) {
-                        loadQuestions('', [], activeSortOrder, activeHisshuOnly);
+                        loadQuestions('', [], activeSortOrder, activeHisshuOnly, activeScope);
                       }
-                      if (folders.length <= 2 && searchHistory.length === 0) {
+                      if (userFolderCount <= 1 && searchHistory.length === 0) {
                         setDeleteMode(false);
                       }
                     }}
@@ -255,20 +320,20 @@ export function ChatUI() {
                 <button
                   onClick={() => {
                     if (!deleteMode) {
-                      loadQuestions({ type: 'folder', folderId: folder.id }, [], activeSortOrder, activeHisshuOnly);
+                      loadQuestions({ type: 'folder', folderId: folder.id }, [], activeSortOrder, activeHisshuOnly, activeScope);
                     }
                   }}
-                  onTouchStart={!isBookmark ? handleLongPressStart : undefined}
-                  onTouchEnd={!isBookmark ? handleLongPressEnd : undefined}
-                  onTouchCancel={!isBookmark ? handleLongPressEnd : undefined}
-                  onMouseDown={!isBookmark ? handleLongPressStart : undefined}
-                  onMouseUp={!isBookmark ? handleLongPressEnd : undefined}
-                  onMouseLeave={!isBookmark ? handleLongPressEnd : undefined}
+                  onTouchStart={!isSystem ? handleLongPressStart : undefined}
+                  onTouchEnd={!isSystem ? handleLongPressEnd : undefined}
+                  onTouchCancel={!isSystem ? handleLongPressEnd : undefined}
+                  onMouseDown={!isSystem ? handleLongPressStart : undefined}
+                  onMouseUp={!isSystem ? handleLongPressEnd : undefined}
+                  onMouseLeave={!isSystem ? handleLongPressEnd : undefined}
                   className={`flex-shrink-0 px-3 py-2.5 text-sm font-medium border-b-2 transition-colors ${
                     isActive
                       ? 'border-blue-400 text-white'
                       : 'border-transparent text-gray-400 hover:text-gray-200'
-                  } ${deleteMode && !isBookmark ? 'pointer-events-none' : ''}`}
+                  } ${deleteMode && !isSystem ? 'pointer-events-none' : ''}`}
                 >
                   <span className="flex items-center gap-1.5">
                     {isBookmark ? (
@@ -286,7 +351,7 @@ export function ChatUI() {
           })}
 
           {/* フォルダ追加ボタン */}
-          {!deleteMode && folders.length < 4 && (
+          {!deleteMode && userFolderCount < 3 && (
             <button
               onClick={() => setShowCreateFolderModal(true)}
               className="flex-shrink-0 px-3 py-2.5 text-gray-400 hover:text-white transition-colors"
@@ -315,7 +380,7 @@ export function ChatUI() {
                     onClick={() => {
                       removeSearchHistory(keyword);
                       if (activeFilter === keyword) {
-                        loadQuestions('', [], activeSortOrder, activeHisshuOnly);
+                        loadQuestions('', [], activeSortOrder, activeHisshuOnly, activeScope);
                       }
                       if (searchHistory.length <= 1 && folders.length === 0) {
                         setDeleteMode(false);
@@ -330,7 +395,7 @@ export function ChatUI() {
                 <button
                   onClick={() => {
                     if (!deleteMode) {
-                      loadQuestions(keyword, [], activeSortOrder, activeHisshuOnly);
+                      loadQuestions(keyword, [], activeSortOrder, activeHisshuOnly, activeScope);
                     }
                   }}
                   onTouchStart={handleLongPressStart}
@@ -369,7 +434,23 @@ export function ChatUI() {
         className="flex-1 overflow-y-auto pt-24 pb-6 px-4"
       >
         <div className="max-w-xl mx-auto">
-          {questions.length === 0 ? (
+          {typeof activeFilter === 'object' && activeFilter.type === 'folder' && activeFilter.folderId === MISTAKES_FOLDER_ID && (
+            <MasteryThresholdSetting />
+          )}
+          {loadError ? (
+            <div className="py-16 text-center text-gray-500">
+              <p>データを読み込めませんでした</p>
+              <p className="text-xs mt-2 text-gray-600">{loadError}</p>
+              <button
+                onClick={() => loadQuestions(activeFilter, activeYears, activeSortOrder, activeHisshuOnly, activeScope)}
+                className="mt-4 px-4 py-2 bg-blue-500 text-white text-sm rounded-full hover:bg-blue-600"
+              >
+                再読み込み
+              </button>
+            </div>
+          ) : isLoading && questions.length === 0 ? (
+            <div className="py-16 text-center text-gray-500">読み込み中...</div>
+          ) : questions.length === 0 && pendingYears.length === 0 ? (
             <div className="py-16 text-center text-gray-500">
               {typeof activeFilter === 'object' && activeFilter.type === 'folder' ? (
                 <>
@@ -387,11 +468,12 @@ export function ChatUI() {
                 <QuestionCard
                   key={`${resetKey}-${question.id}`}
                   question={question}
+                  hit={hitsById.get(question.id)}
                   onImageClick={(images, index) => setImageGallery({ images, index })}
                 />
               ))}
 
-              {displayCount < questions.length && (
+              {(displayCount < questions.length || pendingYears.length > 0) && (
                 <div className="py-8 text-center text-gray-500">
                   スクロールで続きを読み込み中...
                 </div>
@@ -415,7 +497,7 @@ export function ChatUI() {
             if (keyword) {
               addSearch(keyword);
             }
-            loadQuestions(keyword, activeYears, activeSortOrder, activeHisshuOnly);
+            loadQuestions(keyword, activeYears, activeSortOrder, activeHisshuOnly, activeScope);
           }}
           className="w-full max-w-sm flex items-center gap-2 px-4 py-2.5 rounded-full"
           style={{
@@ -450,6 +532,41 @@ export function ChatUI() {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
             </svg>
           </button>
+          {/* ホーム（今日の進捗・試験日までの計画） */}
+          <button
+            type="button"
+            onClick={onOpenHome}
+            className="text-gray-400 hover:text-white"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+            </svg>
+          </button>
+          {/* フラッシュカード復習（今日のカード数を表示） */}
+          <button
+            type="button"
+            onClick={onOpenFlashcards}
+            className="relative text-gray-400 hover:text-white"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+            </svg>
+            {dueCardCount > 0 && (
+              <span className="absolute -top-1.5 -right-2 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+                {dueCardCount}
+              </span>
+            )}
+          </button>
+          {/* 学習分析 */}
+          <button
+            type="button"
+            onClick={onOpenAnalytics}
+            className="text-gray-400 hover:text-white"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+          </button>
         </form>
       </div>
 
@@ -464,19 +581,21 @@ export function ChatUI() {
       )}
 
       {/* フィルターモーダル */}
-      {showFilterModal && (
+      {showFilterModal && manifest && (
         <FilterModal
+          manifest={manifest}
           currentKeyword={typeof activeFilter === 'string' && activeFilter !== 'favorites' ? activeFilter : ''}
           currentYears={activeYears}
           currentSortOrder={activeSortOrder}
           currentHisshuOnly={activeHisshuOnly}
-          onSubmit={(keyword, years, sortOrder, hisshuOnly) => {
+          currentScope={activeScope}
+          onSubmit={(keyword, years, sortOrder, hisshuOnly, scope) => {
             setShowFilterModal(false);
             // 検索キーワードがあれば履歴に追加
             if (keyword.trim()) {
               addSearch(keyword.trim());
             }
-            loadQuestions(keyword, years, sortOrder, hisshuOnly);
+            loadQuestions(keyword, years, sortOrder, hisshuOnly, scope);
           }}
           onClose={() => setShowFilterModal(false)}
         />
@@ -488,7 +607,7 @@ export function ChatUI() {
           onClose={() => setShowAddTabModal(false)}
           onCreated={(tabId) => {
             setShowAddTabModal(false);
-            loadQuestions({ type: 'custom', tabId }, [], activeSortOrder, activeHisshuOnly);
+            loadQuestions({ type: 'custom', tabId }, [], activeSortOrder, activeHisshuOnly, activeScope);
           }}
         />
       )}
@@ -509,18 +628,57 @@ export function ChatUI() {
 // 問題カードコンポーネント（閲覧モード）
 interface QuestionCardProps {
   question: Question;
+  hit?: QuestionSearchResult;
   onImageClick: (images: string[], index: number) => void;
 }
 
-function QuestionCard({ question, onImageClick }: QuestionCardProps) {
+function QuestionCard({ question, hit, onImageClick }: QuestionCardProps) {
   const [showAnswer, setShowAnswer] = useState(false);
   const [isCapturing, setIsCapturing] = useState(false);
   const [showFullExplanation, setShowFullExplanation] = useState(false);
   const cardRef = useRef<HTMLElement>(null);
   const { folders, addToFolder, removeFromFolder, getFoldersForQuestion } = useFolderStore();
   const questionFolders = getFoldersForQuestion(question.id);
+  const isFlashcard = useFlashcardStore(state => state.cards.some(c => c.questionId === question.id));
+  const { addCard, removeCard } = useFlashcardStore();
+  const { recordAnswer, getCorrectStreak } = useProgressStore();
+  const { trackMistake } = useFolderStore();
   const q = question;
-  const explanation = getExplanation(question.id);
+  const answerKey = getAnswerKey(question);
+  const answerKind = answerKey.kind;
+  // 選択肢をタップして解答した場合（選んだ選択肢と採点結果）
+  const [selectedChoices, setSelectedChoices] = useState<string[]>([]);
+  const [grade, setGrade] = useState<GradeResult | null>(null);
+  // 一度でも正答を見たか（見た後の解答は記録しない）
+  const [hasRevealed, setHasRevealed] = useState(false);
+  // 画面に表示された時刻（解答時間の計測用。フィードは先読みするので読み込み時刻ではなく表示された時刻から測る）
+  const shownAt = useRef<number | null>(null);
+  const [explanation, setExplanation] = useState<Explanation | null>(null);
+  const matches = hit ? hit.matches : [];
+  const snippet = hit ? hit.snippet : null;
+
+  // 解説は表示時に取得
+  useEffect(() => {
+    let cancelled = false;
+    getQuestionRepository().getExplanation(question.id)
+      .then(result => { if (!cancelled) setExplanation(result); })
+      .catch(() => { if (!cancelled) setExplanation(null); });
+    return () => { cancelled = true; };
+  }, [question.id]);
+
+  // カードの半分以上が画面に入ったら計測を始める
+  useEffect(() => {
+    const card = cardRef.current;
+    if (!card) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        shownAt.current = Date.now();
+        observer.disconnect();
+      }
+    }, { threshold: 0.5 });
+    observer.observe(card);
+    return () => observer.disconnect();
+  }, []);
 
   const handleScreenshot = async (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -672,11 +830,48 @@ function QuestionCard({ question, onImageClick }: QuestionCardProps) {
 
   const sortedChoices = Object.entries(q.choices).sort(([a], [b]) => a.localeCompare(b));
 
+  // カードのタップで正答の表示を切り替え
+  const toggleAnswer = () => {
+    setShowAnswer(!showAnswer);
+    setHasRevealed(true);
+  };
+
+  // 選択肢をタップして解答（単一選択は1つ、複数選択は正答の数だけ選んだ時点で採点する）
+  // 解答済み・正答を見た後はカードのタップと同じ扱い
+  const handleChoiceClick = (e: React.MouseEvent, key: string) => {
+    if (answerKind !== 'single' && answerKind !== 'multi') return;
+    if (grade || hasRevealed) return;
+    e.stopPropagation();
+    const selected = selectedChoices.includes(key)
+      ? selectedChoices.filter(c => c !== key)
+      : [...selectedChoices, key];
+    setSelectedChoices(selected);
+    const required = answerKey.kind === 'multi' ? answerKey.choices.length : 1;
+    if (selected.length < required) return;
+
+    const response: AnswerResponse = { kind: 'choices', choices: selected };
+    const result = gradeAnswer(question, response);
+    if (result.counted) {
+      recordAnswer({
+        questionId: question.id,
+        response,
+        isCorrect: result.isCorrect,
+        timeSpentMs: shownAt.current === null ? null : Date.now() - shownAt.current,
+        source: 'feed',
+        subject: question.category,
+      });
+      trackMistake(question.id, getCorrectStreak(question.id));
+    }
+    setGrade(result);
+    setShowAnswer(true);
+    setHasRevealed(true);
+  };
+
   return (
     <article
       ref={cardRef}
       className="border-b border-gray-100 py-4 cursor-pointer active:bg-gray-50 transition-colors"
-      onClick={() => setShowAnswer(!showAnswer)}
+      onClick={toggleAnswer}
     >
       {/* ヘッダー */}
       <div className="flex items-center gap-2 mb-2">
@@ -686,9 +881,21 @@ function QuestionCard({ question, onImageClick }: QuestionCardProps) {
         )}
       </div>
 
+      {/* 検索ヒット箇所の抜粋 */}
+      {snippet && (
+        <p className="text-xs text-gray-500 mb-2 line-clamp-2" data-screenshot-exclude>
+          <span className="inline-block bg-yellow-50 text-yellow-700 px-1.5 py-0.5 rounded mr-1.5 font-medium">
+            {getFieldLabel(snippet.field, explanation?.tableTitle)}
+          </span>
+          {snippet.truncatedStart && '…'}
+          <HighlightedText text={snippet.text} matches={snippet.highlights} />
+          {snippet.truncatedEnd && '…'}
+        </p>
+      )}
+
       {/* 問題文 */}
       <p className="text-gray-900 leading-relaxed whitespace-pre-wrap mb-3">
-        {q.questionText}
+        <HighlightedText text={q.questionText} matches={matches.filter(m => m.field === 'questionText')} />
       </p>
 
       {/* 画像 */}
@@ -699,27 +906,33 @@ function QuestionCard({ question, onImageClick }: QuestionCardProps) {
       )}
 
       {/* 選択肢（計算問題以外） */}
-      {getQuestionType(q) !== 'calculation' && (
+      {answerKind !== 'numeric' && (
         <div className="mt-3 space-y-1">
           {(() => {
-            const questionType = getQuestionType(q);
+            const isHighlighted = answerKind === 'single' || answerKind === 'multi';
             return sortedChoices.map(([key, value]) => {
               // 通常問題のみ選択肢のハイライトを適用
-              const isCorrectAnswer = questionType === 'normal' && q.answer.toLowerCase().includes(key);
+              const isCorrectAnswer = isCorrectChoice(q, key);
+              const isWrongPick = showAnswer && grade?.choiceMarks[key] === 'wrong';
               return (
                 <div
                   key={key}
                   data-choice
+                  onClick={e => handleChoiceClick(e, key)}
                   className={`w-full text-left px-3 py-2.5 rounded-lg transition-all ${
-                    showAnswer && isCorrectAnswer
+                    isWrongPick
+                      ? 'text-red-500 line-through'
+                      : showAnswer && isCorrectAnswer
                       ? 'font-medium text-gray-900'
-                      : showAnswer && questionType === 'normal'
+                      : showAnswer && isHighlighted
                       ? 'text-gray-300'
+                      : !showAnswer && selectedChoices.includes(key)
+                      ? 'bg-blue-50 text-gray-900'
                       : 'text-gray-800'
                   }`}
                 >
                   <span className="font-medium mr-2">{key.toUpperCase()}.</span>
-                  {value}
+                  <HighlightedText text={value} matches={matches.filter(m => m.field === `choice:${key}`)} />
                 </div>
               );
             });
@@ -727,30 +940,26 @@ function QuestionCard({ question, onImageClick }: QuestionCardProps) {
         </div>
       )}
 
-      {/* 正答表示（計算・並び替え問題用） */}
-      {showAnswer && (() => {
-        const questionType = getQuestionType(q);
-        if (questionType === 'calculation') {
-          return (
-            <p className="mt-2 text-sm text-gray-500">
-              正答: <span className="font-medium text-gray-700">{q.answer}</span>
-            </p>
-          );
-        }
-        if (questionType === 'ordering') {
-          return (
-            <p className="mt-2 text-sm text-gray-500">
-              正答: <span className="font-medium text-gray-700">{formatOrderingAnswer(q.answer, q.choices)}</span>
-            </p>
-          );
-        }
-        return null;
-      })()}
+      {/* 正答表示（計算・並び替え・採点除外の問題用） */}
+      {showAnswer && answerKind !== 'single' && answerKind !== 'multi' && (
+        <p className="mt-2 text-sm text-gray-500">
+          正答: <span className="font-medium text-gray-700">{formatAnswer(q)}</span>
+        </p>
+      )}
+
+      {/* 解答した問題の自信度 */}
+      {grade?.counted && showAnswer && (
+        <div className="mt-3" onClick={e => e.stopPropagation()} data-screenshot-exclude>
+          <ConfidencePicker questionId={question.id} />
+        </div>
+      )}
 
       {/* アクションボタン（Instagram風） */}
       <div className="flex items-center justify-end gap-3 mt-3 pt-2" onClick={(e) => e.stopPropagation()} data-screenshot-exclude>
-        {/* ブックマーク・フォルダボタン */}
-        {folders.map(folder => {
+        {/* 克服までの進み具合（間違えた問題のみ） */}
+        <MasteryBadge questionId={question.id} />
+        {/* ブックマーク・フォルダボタン（間違えた問題は自動で出し入れするので除く） */}
+        {folders.filter(folder => folder.id !== MISTAKES_FOLDER_ID).map(folder => {
           const isInFolder = questionFolders.some(f => f.id === folder.id);
           const isBookmark = folder.id === 'bookmark';
           return (
@@ -779,6 +988,23 @@ function QuestionCard({ question, onImageClick }: QuestionCardProps) {
             </button>
           );
         })}
+        {/* フラッシュカード追加ボタン */}
+        <button
+          onClick={() => {
+            if (isFlashcard) {
+              removeCard(question.id);
+            } else {
+              addCard(question.id);
+            }
+          }}
+          className={`transition-all hover:scale-110 ${
+            isFlashcard ? 'text-blue-500' : 'text-gray-300 hover:text-gray-400'
+          }`}
+        >
+          <svg className="w-5 h-5" fill={isFlashcard ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+          </svg>
+        </button>
         {/* スクリーンショット保存ボタン */}
         <button
           onClick={handleScreenshot}
@@ -830,6 +1056,54 @@ function QuestionCard({ question, onImageClick }: QuestionCardProps) {
   );
 }
 
+// 検索ヒットしたフィールドの表示名
+function getFieldLabel(field: SearchField, tableTitle?: string | null): string {
+  if (field === 'questionText') return '問題文';
+  if (field.startsWith('choice:')) return `選択肢${field.slice('choice:'.length).toUpperCase()}`;
+  if (field === 'explanation.dialogue') return '解説';
+  if (field === 'explanation.points') return 'ポイント';
+  return tableTitle || '表';
+}
+
+// 検索ヒット箇所をハイライト表示
+interface HighlightedTextProps {
+  text: string;
+  matches: { start: number; length: number }[];
+}
+
+function HighlightedText({ text, matches }: HighlightedTextProps) {
+  if (matches.length === 0) return <>{text}</>;
+
+  // 重なったマッチは結合してから区切る
+  const ranges = [...matches]
+    .sort((a, b) => a.start - b.start)
+    .reduce<{ start: number; end: number }[]>((acc, m) => {
+      const last = acc[acc.length - 1];
+      const end = m.start + m.length;
+      if (last && m.start <= last.end) {
+        last.end = Math.max(last.end, end);
+      } else {
+        acc.push({ start: m.start, end });
+      }
+      return acc;
+    }, []);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(({ start, end }, idx) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={idx} className="bg-yellow-100 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
+
 // 画像グリッドコンポーネント
 interface ImageGridProps {
   images: string[];
@@ -985,28 +1259,66 @@ function ImageGalleryModal({ images, initialIndex, onClose }: ImageGalleryModalP
   );
 }
 
+// 間違えた問題フォルダから外すのに必要な連続正解数の設定
+function MasteryThresholdSetting() {
+  const { masteryThreshold, setMasteryThreshold } = useFolderStore();
+  return (
+    <label className="flex items-center justify-end gap-1 mb-3 text-xs text-gray-400">
+      続けて
+      <select
+        value={masteryThreshold}
+        onChange={e => setMasteryThreshold(Number(e.target.value))}
+        className="bg-transparent text-gray-200 focus:outline-none"
+      >
+        {Array.from({ length: MAX_MASTERY_THRESHOLD }, (_, i) => i + 1).map(n => (
+          <option key={n} value={n} className="text-gray-800">{n}回</option>
+        ))}
+      </select>
+      正解するとフォルダから外す
+    </label>
+  );
+}
+
 // 並び順の型
-type SortOrder = 'newest' | 'random';
+type SortOrder = 'newest' | 'relevance' | 'random';
+
+// 並び順を選んでいないときの既定（キーワードがあれば関連度順、なければ新しい順）
+function defaultSortOrder(keyword: string): SortOrder {
+  return keyword.trim() ? 'relevance' : 'newest';
+}
+
+// 検索範囲の選択肢
+const SEARCH_SCOPES: { value: SearchScope; label: string }[] = [
+  { value: 'questions', label: '問題のみ' },
+  { value: 'explanations', label: '解説のみ' },
+  { value: 'both', label: '問題＋解説' },
+];
 
 // フィルターモーダル
 interface FilterModalProps {
+  manifest: QuestionsManifest;
   currentKeyword: string;
   currentYears: number[];
-  currentSortOrder: SortOrder;
+  currentSortOrder: SortOrder | null;
   currentHisshuOnly: boolean;
-  onSubmit: (keyword: string, years: number[], sortOrder: SortOrder, hisshuOnly: boolean) => void;
+  currentScope: SearchScope;
+  onSubmit: (keyword: string, years: number[], sortOrder: SortOrder | null, hisshuOnly: boolean, scope: SearchScope) => void;
   onClose: () => void;
 }
 
-function FilterModal({ currentKeyword, currentYears, currentSortOrder, currentHisshuOnly, onSubmit, onClose }: FilterModalProps) {
+function FilterModal({ manifest, currentKeyword, currentYears, currentSortOrder, currentHisshuOnly, currentScope, onSubmit, onClose }: FilterModalProps) {
   const [keyword, setKeyword] = useState(currentKeyword);
   const [selectedYears, setSelectedYears] = useState<number[]>(currentYears);
-  const [sortOrder, setSortOrder] = useState<SortOrder>(currentSortOrder);
+  // 並び順を選ぶまではキーワードに応じて既定の並び順にする
+  const [chosenSortOrder, setSortOrder] = useState<SortOrder | null>(currentSortOrder);
+  const sortOrder = chosenSortOrder ?? defaultSortOrder(keyword);
   const [hisshuOnly, setHisshuOnly] = useState(currentHisshuOnly);
+  const [scope, setScope] = useState<SearchScope>(currentScope);
   const [previewCount, setPreviewCount] = useState(0);
+  const [queryErrors, setQueryErrors] = useState<QuerySyntaxError[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const [minYear, maxYear] = getYearRange();
+  const [minYear, maxYear] = getYearRange(manifest.meta);
   const years: number[] = [];
   for (let y = maxYear; y >= minYear; y--) {
     years.push(y);
@@ -1021,10 +1333,24 @@ function FilterModal({ currentKeyword, currentYears, currentSortOrder, currentHi
   };
 
   useEffect(() => {
-    const allQ = getAllQuestions();
-    const filtered = filterQuestions(allQ, keyword.trim(), selectedYears, [], hisshuOnly);
-    setPreviewCount(filtered.length);
-  }, [keyword, selectedYears, hisshuOnly]);
+    setQueryErrors(validateSearchQuery(keyword));
+
+    // 絞り込みが回次だけなら目録の件数で足りる（問題本体は読み込まない）
+    if (!keyword.trim() && !hisshuOnly) {
+      const count = manifest.years
+        .filter(y => selectedYears.length === 0 || selectedYears.includes(y.year))
+        .reduce((sum, y) => sum + y.questionCount, 0);
+      setPreviewCount(count);
+      return;
+    }
+
+    let cancelled = false;
+    getQuestionRepository()
+      .query({ searchText: keyword.trim(), years: selectedYears, hisshuOnly, scope })
+      .then(results => { if (!cancelled) setPreviewCount(results.length); })
+      .catch(() => { if (!cancelled) setPreviewCount(0); });
+    return () => { cancelled = true; };
+  }, [manifest, keyword, selectedYears, hisshuOnly, scope]);
 
   useEffect(() => {
     inputRef.current?.focus();
@@ -1032,7 +1358,7 @@ function FilterModal({ currentKeyword, currentYears, currentSortOrder, currentHi
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(keyword.trim(), selectedYears, sortOrder, hisshuOnly);
+    onSubmit(keyword.trim(), selectedYears, chosenSortOrder, hisshuOnly, scope);
   };
 
   return (
@@ -1054,7 +1380,7 @@ function FilterModal({ currentKeyword, currentYears, currentSortOrder, currentHi
                 type="text"
                 value={keyword}
                 onChange={e => setKeyword(e.target.value)}
-                placeholder="キーワードで検索"
+                placeholder="キーワードで検索（例: has:image 根分岐部 -year:104）"
                 className="flex-1 pl-3 pr-2 py-4 bg-transparent text-base text-gray-900 placeholder-gray-400 focus:outline-none"
               />
               {/* 件数表示（入力欄内の右側） */}
@@ -1067,6 +1393,16 @@ function FilterModal({ currentKeyword, currentYears, currentSortOrder, currentHi
                 </button>
               )}
             </div>
+            {/* 構文エラー */}
+            {queryErrors.length > 0 && (
+              <ul className="mt-2 px-2 space-y-0.5">
+                {queryErrors.map((error, idx) => (
+                  <li key={idx} className="text-xs text-red-400">
+                    {error.position + 1}文字目: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
             {/* 検索ボタン（横幅いっぱい） */}
             <button
               type="submit"
@@ -1076,13 +1412,37 @@ function FilterModal({ currentKeyword, currentYears, currentSortOrder, currentHi
             </button>
           </div>
 
+          {/* 検索範囲 - セグメントコントロール */}
+          <div className="mb-3">
+            <div className="bg-white/10 p-1 rounded-full flex">
+              {SEARCH_SCOPES.map(({ value, label }) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setScope(value)}
+                  className={`flex-1 py-2 rounded-full text-xs font-medium transition-colors duration-300 ${
+                    scope === value
+                      ? 'bg-white/20 text-white'
+                      : 'text-gray-400'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* 並び順 - セグメントコントロール */}
           <div className="mb-4">
             <div className="bg-white/10 p-1 rounded-full flex relative">
               {/* スライドするインジケーター */}
               <div
-                className="absolute top-1 bottom-1 left-1 w-[calc(50%-4px)] bg-white/20 rounded-full transition-transform duration-300 ease-out"
-                style={{ transform: sortOrder === 'newest' ? 'translateX(0)' : 'translateX(100%)' }}
+                className="absolute top-1 bottom-1 left-1 w-[calc(33.333%-2.667px)] bg-white/20 rounded-full transition-transform duration-300 ease-out"
+                style={{
+                  transform: sortOrder === 'newest'
+                    ? 'translateX(0)'
+                    : sortOrder === 'relevance' ? 'translateX(100%)' : 'translateX(200%)'
+                }}
               />
               <button
                 type="button"
@@ -1095,6 +1455,17 @@ function FilterModal({ currentKeyword, currentYears, currentSortOrder, currentHi
               >
                 新しい順
               </button>
+              <button
+                type="button"
+                onClick={() => setSortOrder('relevance')}
+                className={`flex-1 py-2.5 rounded-full text-sm font-medium transition-colors duration-300 relative z-10 ${
+                  sortOrder === 'relevance'
+                    ? 'text-white'
+                    : 'text-gray-400'
+                }`}
+              >
+                関連度順
+              </button>
               <button
                 type="button"
                 onClick={() => setSortOrder('random')}
@@ -1196,25 +1567,29 @@ function AddTabModal({ onClose, onCreated }: AddTabModalProps) {
       return;
     }
 
-    const allQ = getAllQuestions();
+    let cancelled = false;
     const subjectNames = [...selectedSubjects].map(id => {
       const subject = getSubjectById(id);
       return subject ? subject.name : null;
     }).filter(Boolean) as string[];
 
-    const count = allQ.filter(q => {
-      // categoryフィールドでマッチ
-      if (q.category && subjectNames.includes(q.category)) {
-        return true;
-      }
-      // keywordsフィールド（複数科目）でマッチ
-      if (q.keywords && Array.isArray(q.keywords)) {
-        return q.keywords.some(kw => subjectNames.includes(kw));
-      }
-      return false;
-    }).length;
+    getQuestionRepository().list().then(allQ => {
+      if (cancelled) return;
+      const count = allQ.filter(q => {
+        // categoryフィールドでマッチ
+        if (q.category && subjectNames.includes(q.category)) {
+          return true;
+        }
+        // keywordsフィールド（複数科目）でマッチ
+        if (q.keywords && Array.isArray(q.keywords)) {
+          return q.keywords.some(kw => subjectNames.includes(kw));
+        }
+        return false;
+      }).length;
+      setPreviewCount(count);
+    }).catch(() => { if (!cancelled) setPreviewCount(0); });
 
-    setPreviewCount(count);
+    return () => { cancelled = true; };
   }, [selectedSubjects]);
 
   // 科目の選択/解除
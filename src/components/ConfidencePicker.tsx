@@ -0,0 +1,43 @@
+// 解答後の自信度の選択（直近の解答に記録し、勘で当たった問題は間違えた問題フォルダに入れる）
+// 選び直したときは、その解答を勘でなかったとしてフォルダの出し入れをやり直す
+
+import { CONFIDENCE_LABELS, CONFIDENCE_LEVELS, isKnownCorrect, type Confidence } from '../services/confidence';
+import { useFolderStore, MISTAKES_FOLDER_ID } from '../store/useFolderStore';
+import { useProgressStore } from '../store/useProgressStore';
+
+interface Props {
+  questionId: string;
+}
+
+export function ConfidencePicker({ questionId }: Props) {
+  const confidence = useProgressStore(state => state.getLastAttempt(questionId)?.confidence ?? null);
+  const { rateLastAttempt, getAttempts, getCorrectStreak } = useProgressStore();
+  const { trackMistake, removeFromFolder } = useFolderStore();
+
+  const handleSelect = (level: Confidence) => {
+    rateLastAttempt(questionId, level);
+    if (getAttempts(questionId).every(isKnownCorrect)) {
+      // 一度も間違えていない（勘を選んだことで入れた分を取り消す）
+      removeFromFolder(MISTAKES_FOLDER_ID, questionId);
+    } else {
+      trackMistake(questionId, getCorrectStreak(questionId));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-gray-500">自信度</span>
+      {CONFIDENCE_LEVELS.map(level => (
+        <button
+          key={level}
+          onClick={() => handleSelect(level)}
+          className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+            confidence === level ? 'bg-primary text-white' : 'bg-white text-gray-600 border border-gray-300'
+          }`}
+        >
+          {CONFIDENCE_LABELS[level]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -4,8 +4,12 @@ import { useStore } from '../store/useStore';
 import { getYearRange, getSessions } from '../services/questionService';
 
 export function FilterPanel() {
-  const { filter, toggleYear, selectAllYears, clearAllYears, toggleSession } = useStore();
-  const [minYear, maxYear] = getYearRange();
+  const { meta, filter, toggleYear, selectAllYears, clearAllYears, toggleSession } = useStore();
+
+  // メタデータの読み込み待ち
+  if (!meta) return null;
+
+  const [minYear, maxYear] = getYearRange(meta);
   const sessions = getSessions();
 
   // 年度リストを生成（降順）
@@ -0,0 +1,382 @@
+// フラッシュカード復習モード - 表で思い出し、裏で確認して自己評価
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Question } from '../types/question';
+import type { Explanation } from '../services/questionService';
+import { getQuestionRepository } from '../services/questionRepository';
+import { formatAnswer } from '../services/grading';
+import { formatInterval, REVIEW_RATINGS, type ReviewRating } from '../services/spacedRepetition';
+import { getToday } from '../services/studyDate';
+import { useFlashcardStore } from '../store/useFlashcardStore';
+
+interface Props {
+  onExit: () => void;
+}
+
+// 復習するカード（問題と解説を読み込んだもの）
+interface ReviewItem {
+  question: Question;
+  explanation: Explanation | null;
+}
+
+// 評価ボタンの表示
+const RATING_LABELS: Record<ReviewRating, { label: string; key: string; className: string }> = {
+  again: { label: 'もう一度', key: '1', className: 'bg-red-500 active:bg-red-600' },
+  hard: { label: '難しい', key: '2', className: 'bg-orange-400 active:bg-orange-500' },
+  good: { label: '正解', key: '3', className: 'bg-green-500 active:bg-green-600' },
+  easy: { label: '簡単', key: '4', className: 'bg-blue-500 active:bg-blue-600' },
+};
+
+// スワイプと判定する横移動の距離（px）
+const SWIPE_THRESHOLD = 80;
+
+// 1日に出す新規カードの上限の選択肢
+const NEW_CARDS_PER_DAY_OPTIONS = [0, 5, 10, 20, 30, 50];
+
+export function FlashcardReview({ onExit }: Props) {
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  // 評価ごとの回数（セッションのまとめ用）
+  const [ratingCounts, setRatingCounts] = useState<Record<ReviewRating, number>>({ again: 0, hard: 0, good: 0, easy: 0 });
+  const [reviewedIds, setReviewedIds] = useState<Set<string>>(new Set());
+  const startedAt = useRef(Date.now());
+  const touchStartX = useRef<number | null>(null);
+
+  const { getDueQueue, getCard, reviewCard } = useFlashcardStore();
+
+  // 今日のカードを読み込み（開始時点の一覧で固定する）
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const repository = getQuestionRepository();
+      const cards = useFlashcardStore.getState().getDueQueue();
+      const items = await Promise.all(cards.map(async card => {
+        const [question, explanation] = await Promise.all([
+          repository.getById(card.questionId),
+          repository.getExplanation(card.questionId),
+        ]);
+        return question ? { question, explanation } : null;
+      }));
+      // データから消えた問題は飛ばす
+      setQueue(items.filter((item): item is ReviewItem => item !== null));
+      startedAt.current = Date.now();
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const current = queue[0];
+
+  // 評価してスケジューラに反映
+  const handleRate = useCallback((rating: ReviewRating) => {
+    if (!current || !isFlipped) return;
+
+    const questionId = current.question.id;
+    reviewCard(questionId, rating);
+    setRatingCounts(prev => ({ ...prev, [rating]: prev[rating] + 1 }));
+    setReviewedIds(prev => new Set(prev).add(questionId));
+    setIsFlipped(false);
+    // もう一度 は今日のうちに再出題するので最後に回す
+    setQueue(prev => rating === 'again' ? [...prev.slice(1), prev[0]] : prev.slice(1));
+  }, [current, isFlipped, reviewCard]);
+
+  // キーボード操作（Space/Enter: めくる、1〜4: 評価）
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (selectedImage) return;
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault();
+        setIsFlipped(true);
+        return;
+      }
+      const rating = REVIEW_RATINGS.find(r => RATING_LABELS[r].key === e.key);
+      if (rating) handleRate(rating);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleRate, selectedImage]);
+
+  // スワイプ（左: もう一度、右: 正解）
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStartX.current = e.touches[0].clientX;
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const deltaX = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    if (!isFlipped || Math.abs(deltaX) < SWIPE_THRESHOLD) return;
+    handleRate(deltaX < 0 ? 'again' : 'good');
+  };
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center px-6">
+          <p className="text-xl text-gray-600">カードを読み込めませんでした</p>
+          <p className="text-sm text-gray-500 mt-2">{loadError}</p>
+          <div className="flex gap-3 justify-center mt-6">
+            <button onClick={onExit} className="px-5 py-2 rounded-xl bg-gray-200 text-gray-700 font-medium">
+              戻る
+            </button>
+            <button onClick={loadQueue} className="px-5 py-2 rounded-xl bg-primary text-white font-medium">
+              再読み込み
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <p className="text-xl text-gray-600">読み込み中...</p>
+      </div>
+    );
+  }
+
+  // すべて終わった（または今日のカードがない）
+  if (!current) {
+    const reviewedCount = reviewedIds.size;
+    const totalRatings = REVIEW_RATINGS.reduce((sum, r) => sum + ratingCounts[r], 0);
+    const minutes = Math.max(1, Math.round((Date.now() - startedAt.current) / 60000));
+    const remaining = getDueQueue().length;
+
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center p-6">
+        <div className="bg-white rounded-2xl shadow-sm p-6 w-full max-w-sm text-center">
+          {reviewedCount === 0 ? (
+            <>
+              <div className="text-4xl mb-4">🗂️</div>
+              <p className="text-gray-700 font-medium">今日復習するカードはありません</p>
+              <p className="text-sm text-gray-500 mt-2">フィードのカードボタンから問題を追加できます</p>
+            </>
+          ) : (
+            <>
+              <div className="text-4xl mb-4">🎉</div>
+              <p className="text-gray-800 text-lg font-bold">今日の復習が終わりました</p>
+              <p className="text-sm text-gray-500 mt-1">
+                {reviewedCount}枚 / {totalRatings}回 / 約{minutes}分
+              </p>
+              <div className="grid grid-cols-4 gap-2 mt-6">
+                {REVIEW_RATINGS.map(rating => (
+                  <div key={rating} className="rounded-lg bg-gray-50 py-2">
+                    <p className="text-lg font-bold text-gray-800">{ratingCounts[rating]}</p>
+                    <p className="text-xs text-gray-500">{RATING_LABELS[rating].label}</p>
+                  </div>
+                ))}
+              </div>
+              {remaining > 0 && (
+                <p className="text-xs text-gray-500 mt-4">まだ {remaining}枚 のカードがあります</p>
+              )}
+            </>
+          )}
+          <NewCardsPerDaySetting />
+          <div className="flex gap-3 justify-center mt-6">
+            <button onClick={onExit} className="px-5 py-2 rounded-xl bg-gray-200 text-gray-700 font-medium">
+              戻る
+            </button>
+            {remaining > 0 && (
+              <button onClick={loadQueue} className="px-5 py-2 rounded-xl bg-primary text-white font-medium">
+                {reviewedCount > 0 ? '続ける' : '始める'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { question, explanation } = current;
+  const card = getCard(question.id);
+  const today = getToday();
+  const sortedChoices = Object.entries(question.choices).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      {/* ヘッダー */}
+      <header className="bg-white border-b border-gray-200 px-4 py-3 flex items-center justify-between">
+        <button onClick={onExit} className="text-gray-600 hover:text-gray-800 font-medium">
+          ✕ 終了
+        </button>
+        <span className="text-sm text-gray-500">{question.id}</span>
+        <span className="text-sm font-medium text-primary">残り {queue.length}</span>
+      </header>
+
+      {/* カード */}
+      <main
+        className="flex-1 overflow-y-auto p-4"
+        onTouchStart={handleTouchStart}
+        onTouchEnd={handleTouchEnd}
+      >
+        <div className="max-w-xl mx-auto">
+          {/* 表: 問題文・図・選択肢 */}
+          <div className="bg-white rounded-xl p-5 mb-4 shadow-sm">
+            <p className="text-gray-800 leading-relaxed whitespace-pre-wrap">{question.questionText}</p>
+
+            {question.images.length > 0 && (
+              <div className="flex gap-2 overflow-x-auto mt-4 pb-2">
+                {question.images.map((img, idx) => (
+                  <img
+                    key={idx}
+                    src={img}
+                    alt={`図${idx + 1}`}
+                    className="h-32 w-auto rounded-lg border border-gray-200 cursor-pointer"
+                    onClick={() => setSelectedImage(img)}
+                  />
+                ))}
+              </div>
+            )}
+
+            <div className="mt-4 space-y-1">
+              {sortedChoices.map(([key, value]) => (
+                <p key={key} className="text-gray-700">
+                  <span className="font-bold mr-2 text-gray-500">{key.toUpperCase()}.</span>
+                  {value}
+                </p>
+              ))}
+            </div>
+          </div>
+
+          {/* 裏: 正答と解説のポイント・表 */}
+          {isFlipped && (
+            <div className="bg-white rounded-xl p-5 shadow-sm">
+              <p className="text-gray-800">
+                <span className="font-bold">正答: </span>
+                <span className="text-green-700 font-bold">{formatAnswer(question)}</span>
+              </p>
+              {explanation?.points && (
+                <div className="mt-4 p-3 bg-blue-50 rounded-lg">
+                  <p className="text-xs font-medium text-blue-600 mb-1">ポイント</p>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{explanation.points}</p>
+                </div>
+              )}
+              {explanation?.tableContent && (
+                <ExplanationTable title={explanation.tableTitle} content={explanation.tableContent} />
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+
+      {/* フッター: めくる / 評価 */}
+      <footer className="bg-white border-t border-gray-200 p-4">
+        {!isFlipped ? (
+          <button
+            onClick={() => setIsFlipped(true)}
+            className="w-full py-4 rounded-xl font-bold text-lg bg-primary text-white active:bg-blue-700 transition-all"
+          >
+            答えを見る
+          </button>
+        ) : (
+          <div className="grid grid-cols-4 gap-2">
+            {REVIEW_RATINGS.map(rating => (
+              <button
+                key={rating}
+                onClick={() => handleRate(rating)}
+                className={`py-3 rounded-xl text-white font-bold transition-all ${RATING_LABELS[rating].className}`}
+              >
+                <span className="block text-sm">{RATING_LABELS[rating].label}</span>
+                {card && (
+                  <span className="block text-xs font-normal opacity-80">{formatInterval(card, rating, today)}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </footer>
+
+      {/* 画像拡大モーダル */}
+      {selectedImage && (
+        <div
+          className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center p-4"
+          onClick={() => setSelectedImage(null)}
+        >
+          <img src={selectedImage} alt="拡大" className="max-w-full max-h-full object-contain" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 1日の新規カード上限の設定（上げると今日の残りのカードに反映される）
+function NewCardsPerDaySetting() {
+  const { newCardsPerDay, setNewCardsPerDay } = useFlashcardStore();
+  // 選択肢にない値（以前の設定など）もそのまま表示する
+  const options = NEW_CARDS_PER_DAY_OPTIONS.includes(newCardsPerDay)
+    ? NEW_CARDS_PER_DAY_OPTIONS
+    : [...NEW_CARDS_PER_DAY_OPTIONS, newCardsPerDay].sort((a, b) => a - b);
+
+  return (
+    <label className="flex items-center justify-center gap-1 mt-4 text-xs text-gray-500">
+      新規カード
+      <select
+        value={newCardsPerDay}
+        onChange={e => setNewCardsPerDay(Number(e.target.value))}
+        className="bg-transparent text-gray-700 font-medium focus:outline-none"
+      >
+        {options.map(n => (
+          <option key={n} value={n}>{n}枚</option>
+        ))}
+      </select>
+      / 日
+    </label>
+  );
+}
+
+// 解説の表（tableContent は行オブジェクトの配列のJSON）
+function ExplanationTable({ title, content }: { title: string | null; content: string }) {
+  let rows: Record<string, string>[] | null = null;
+  try {
+    const parsed = JSON.parse(content);
+    if (Array.isArray(parsed) && parsed.length > 0) rows = parsed;
+  } catch {
+    rows = null;
+  }
+
+  return (
+    <div className="mt-4">
+      {title && <p className="text-xs font-medium text-gray-600 mb-1">{title}</p>}
+      {rows ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs border-collapse">
+            <thead>
+              <tr>
+                {Object.keys(rows[0]).map(column => (
+                  <th key={column} className="border border-gray-200 bg-gray-50 px-2 py-1 text-left font-medium text-gray-700">
+                    {column}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i}>
+                  {Object.keys(rows[0]).map(column => (
+                    <td key={column} className="border border-gray-200 px-2 py-1 text-gray-700">
+                      {row[column]}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        // JSONでなければそのまま表示
+        <p className="text-xs text-gray-700 whitespace-pre-wrap">{content}</p>
+      )}
+    </div>
+  );
+}
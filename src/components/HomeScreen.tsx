@@ -1,16 +1,62 @@
 // ホーム画面 - 2つの入り口
 
+import { useState, useEffect, useMemo } from 'react';
+import type { Question } from '../types/question';
 import { useProgressStore } from '../store/useProgressStore';
-import { getMeta } from '../services/questionService';
+import { useFlashcardStore } from '../store/useFlashcardStore';
+import { useMockExamStore } from '../store/useMockExamStore';
+import { useStudySessionStore } from '../store/useStudySessionStore';
+import { getQuestionRepository } from '../services/questionRepository';
+import type { QuestionsMeta } from '../services/questionService';
+import { calculatePace, describeTarget, type ExamPlan, type PaceStatus, type StudyPace } from '../services/studyPlan';
+import { getToday } from '../services/studyDate';
 
 interface Props {
   onStartStudy: () => void;
   onStartSearch: () => void;
+  onStartMockExam: () => void;
+  onOpenQuizBuilder: () => void;
 }
 
-export function HomeScreen({ onStartStudy, onStartSearch }: Props) {
-  const { currentStreak, todayAnswered, todayCorrect, dailyGoal, totalAnswered } = useProgressStore();
-  const meta = getMeta();
+export function HomeScreen({ onStartStudy, onStartSearch, onStartMockExam, onOpenQuizBuilder }: Props) {
+  const {
+    currentStreak, todayAnswered, todayCorrect, dailyGoal, totalAnswered,
+    attempts, examPlan, setExamPlan, setDailyGoal,
+  } = useProgressStore();
+  const dueCardCount = useFlashcardStore(state => state.getDueQueue().length);
+  const mockExam = useMockExamStore(state => state.exam);
+  const studySession = useStudySessionStore(state => state.session);
+  const [meta, setMeta] = useState<QuestionsMeta | null>(null);
+  const [metaError, setMetaError] = useState(false);
+  const [questions, setQuestions] = useState<Question[] | null>(null);
+  const [showPlanModal, setShowPlanModal] = useState(false);
+
+  // メタデータを読み込み
+  useEffect(() => {
+    getQuestionRepository().meta()
+      .then(setMeta)
+      .catch(() => setMetaError(true));
+  }, []);
+
+  // 計画があれば、目標の問題数を数えるために全問題を読み込む
+  useEffect(() => {
+    if (!examPlan || questions) return;
+    getQuestionRepository().list()
+      .then(setQuestions)
+      .catch(() => setQuestions(null));
+  }, [examPlan, questions]);
+
+  const pace = useMemo(
+    () => examPlan && questions ? calculatePace(examPlan, questions, attempts, dueCardCount, getToday()) : null,
+    [examPlan, questions, attempts, dueCardCount]
+  );
+
+  // 必要なペースに合わせて1日の目標を更新
+  useEffect(() => {
+    if (!pace || !examPlan?.autoAdjustGoal || pace.status === 'finished') return;
+    const goal = Math.max(1, pace.requiredPerDay);
+    if (goal !== dailyGoal) setDailyGoal(goal);
+  }, [pace, examPlan, dailyGoal, setDailyGoal]);
 
   const progressPercent = Math.min((todayAnswered / dailyGoal) * 100, 100);
   const accuracyPercent = todayAnswered > 0 ? Math.round((todayCorrect / todayAnswered) * 100) : 0;
@@ -21,12 +67,17 @@ export function HomeScreen({ onStartStudy, onStartSearch }: Props) {
       <header className="text-white text-center pt-12 pb-8 px-6">
         <h1 className="text-3xl font-bold mb-2">国試過去問</h1>
         <p className="text-blue-200 text-sm">
-          {meta.yearRange.min}〜{meta.yearRange.max}回 / {meta.totalCount.toLocaleString()}問
+          {meta
+            ? `${meta.yearRange.min}〜${meta.yearRange.max}回 / ${meta.totalCount.toLocaleString()}問`
+            : metaError ? 'データを読み込めませんでした' : '読み込み中...'}
         </p>
       </header>
 
       {/* メインコンテンツ */}
       <main className="flex-1 bg-gray-100 rounded-t-3xl px-6 py-8">
+        {/* 試験日までのカウントダウン */}
+        <ExamPlanCard plan={examPlan} pace={pace} onEdit={() => setShowPlanModal(true)} />
+
         {/* ストリーク & 今日の進捗 */}
         <div className="bg-white rounded-2xl p-6 shadow-sm mb-6">
           <div className="flex items-center justify-between mb-4">
@@ -75,7 +126,11 @@ export function HomeScreen({ onStartStudy, onStartSearch }: Props) {
           >
             <div className="text-4xl mb-3">📝</div>
             <p className="font-bold text-lg">学習する</p>
-            <p className="text-blue-200 text-xs mt-1">自動で出題</p>
+            <p className="text-blue-200 text-xs mt-1">
+              {studySession && !studySession.finishedAt
+                ? `続きから ${studySession.currentIndex + 1} / ${studySession.length}`
+                : '自動で出題'}
+            </p>
           </button>
 
           {/* 検索する */}
@@ -101,8 +156,209 @@ export function HomeScreen({ onStartStudy, onStartSearch }: Props) {
             </div>
             <span className="text-2xl">→</span>
           </button>
+
+          {/* 問題セット */}
+          <button
+            onClick={onOpenQuizBuilder}
+            className="w-full bg-white hover:bg-gray-50 text-gray-800 rounded-xl py-4 px-6 text-left flex items-center justify-between transition-all active:scale-[0.98] shadow-md border border-gray-200"
+          >
+            <div>
+              <p className="font-bold">問題セットを作る</p>
+              <p className="text-gray-500 text-sm">科目・回次・解答状況を指定して出題</p>
+            </div>
+            <span className="text-2xl">🧩</span>
+          </button>
+
+          {/* 模擬試験（途中なら続きから） */}
+          <button
+            onClick={onStartMockExam}
+            className="w-full bg-white hover:bg-gray-50 text-gray-800 rounded-xl py-4 px-6 text-left flex items-center justify-between transition-all active:scale-[0.98] shadow-md border border-gray-200"
+          >
+            <div>
+              <p className="font-bold">{mockExam ? `第${mockExam.year}回 模擬試験の続き` : '模擬試験'}</p>
+              <p className="text-gray-500 text-sm">
+                {mockExam
+                  ? mockExam.finishedAt ? '結果を見る' : `${mockExam.sessions[mockExam.currentSession].name}問題から`
+                  : '過去の1回分を時間を計って解く'}
+              </p>
+            </div>
+            <span className="text-2xl">⏱</span>
+          </button>
         </div>
       </main>
+
+      {showPlanModal && (
+        <ExamPlanModal
+          plan={examPlan}
+          onSave={(plan) => {
+            setExamPlan(plan);
+            setShowPlanModal(false);
+          }}
+          onClose={() => setShowPlanModal(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+const PACE_STATUS_LABELS: Record<PaceStatus, { label: string; className: string }> = {
+  'on-track': { label: '予定どおり', className: 'bg-green-100 text-green-700' },
+  behind: { label: '遅れ気味', className: 'bg-red-100 text-red-700' },
+  ahead: { label: '先行中', className: 'bg-blue-100 text-blue-700' },
+  finished: { label: '達成', className: 'bg-gray-100 text-gray-600' },
+};
+
+// 試験日までの日数と計画の進み具合
+function ExamPlanCard({ plan, pace, onEdit }: { plan: ExamPlan | null; pace: StudyPace | null; onEdit: () => void }) {
+  if (!plan) {
+    return (
+      <button
+        onClick={onEdit}
+        className="w-full bg-white rounded-2xl p-4 shadow-sm mb-6 text-left flex items-center justify-between"
+      >
+        <div>
+          <p className="font-bold text-gray-800">試験日を設定する</p>
+          <p className="text-xs text-gray-500">目標から1日に解く問題数を計算します</p>
+        </div>
+        <span className="text-2xl">📅</span>
+      </button>
+    );
+  }
+
+  const progressPercent = pace && pace.targetTotal > 0 ? Math.min((pace.completed / pace.targetTotal) * 100, 100) : 0;
+  const expectedPercent = pace && pace.targetTotal > 0 ? Math.min((pace.expected / pace.targetTotal) * 100, 100) : 0;
+
+  return (
+    <div className="bg-white rounded-2xl p-5 shadow-sm mb-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="text-sm text-gray-500">試験まで</p>
+          <p className="text-3xl font-bold text-gray-800">
+            {pace ? pace.daysLeft : '-'}<span className="text-base font-medium text-gray-500 ml-1">日</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {pace && (
+            <span className={`text-xs px-2 py-1 rounded font-medium ${PACE_STATUS_LABELS[pace.status].className}`}>
+              {PACE_STATUS_LABELS[pace.status].label}
+            </span>
+          )}
+          <button onClick={onEdit} className="text-xs text-gray-400 hover:text-gray-600">変更</button>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-2">{plan.examDate} ・ {describeTarget(plan.target)}</p>
+
+      {pace ? (
+        <>
+          {/* 進み具合（線は予定の位置） */}
+          <div className="relative h-2 bg-gray-100 rounded-full overflow-hidden mt-3">
+            <div className="h-full bg-primary rounded-full" style={{ width: `${progressPercent}%` }} />
+            <div className="absolute top-0 h-full w-0.5 bg-gray-400" style={{ left: `${expectedPercent}%` }} />
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>{pace.completed} / {pace.targetTotal} 問</span>
+            {pace.status !== 'finished' && (
+              <span>
+                1日 <span className="font-bold text-gray-700">{pace.requiredPerDay}</span> 問ペース
+                {pace.dueCount > 0 && `（復習 ${pace.dueCount} 問を含む）`}
+              </span>
+            )}
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-gray-400 mt-3">計算中...</p>
+      )}
+    </div>
+  );
+}
+
+// 試験日と目標の設定
+function ExamPlanModal({ plan, onSave, onClose }: { plan: ExamPlan | null; onSave: (plan: ExamPlan | null) => void; onClose: () => void }) {
+  const [examDate, setExamDate] = useState(plan?.examDate || '');
+  const [recentYears, setRecentYears] = useState(plan?.target.recentYears || 10);
+  const [hisshuOnly, setHisshuOnly] = useState(plan?.target.hisshuOnly ?? false);
+  const [passes, setPasses] = useState(plan?.target.passes || 1);
+  const [autoAdjustGoal, setAutoAdjustGoal] = useState(plan?.autoAdjustGoal ?? true);
+
+  const today = getToday();
+  const canSave = examDate > today;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      examDate,
+      // 目標を変えたら進み具合はその日から数え直す
+      startDate: plan && plan.examDate === examDate ? plan.startDate : today,
+      target: { recentYears, hisshuOnly, passes },
+      autoAdjustGoal,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl p-6 w-full max-w-sm" onClick={e => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-800 mb-4">試験日と目標</h2>
+
+        <label className="block text-sm text-gray-600 mb-1">試験日</label>
+        <input
+          type="date"
+          value={examDate}
+          min={today}
+          onChange={e => setExamDate(e.target.value)}
+          className="w-full p-2 rounded-lg border border-gray-300 mb-4 focus:outline-none focus:border-primary"
+        />
+
+        <label className="block text-sm text-gray-600 mb-1">目標</label>
+        <div className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+          直近
+          <select
+            value={recentYears}
+            onChange={e => setRecentYears(Number(e.target.value))}
+            className="p-1 rounded border border-gray-300"
+          >
+            {[1, 3, 5, 7, 10, 15].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          回分を
+          <select
+            value={passes}
+            onChange={e => setPasses(Number(e.target.value))}
+            className="p-1 rounded border border-gray-300"
+          >
+            {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          周
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 mb-2">
+          <input type="checkbox" checked={hisshuOnly} onChange={e => setHisshuOnly(e.target.checked)} />
+          必修のみ
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 mb-6">
+          <input type="checkbox" checked={autoAdjustGoal} onChange={e => setAutoAdjustGoal(e.target.checked)} />
+          1日の目標をペースに合わせて自動で変える
+        </label>
+
+        <div className="flex gap-3">
+          {plan && (
+            <button
+              onClick={() => onSave(null)}
+              className="px-4 py-2 rounded-xl text-red-600 text-sm font-medium"
+            >
+              削除
+            </button>
+          )}
+          <button onClick={onClose} className="flex-1 py-2 rounded-xl bg-gray-200 text-gray-700 font-medium">
+            キャンセル
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className={`flex-1 py-2 rounded-xl font-medium ${canSave ? 'bg-primary text-white' : 'bg-gray-200 text-gray-400'}`}
+          >
+            保存
+          </button>
+        </div>
+      </div>
     </div>
   );
 }
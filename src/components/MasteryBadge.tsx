@@ -0,0 +1,35 @@
+// 間違えた問題の克服度表示コンポーネント（連続正解数 / 卒業に必要な回数）
+
+import { useFolderStore, MISTAKES_FOLDER_ID } from '../store/useFolderStore';
+import { useProgressStore } from '../store/useProgressStore';
+
+interface Props {
+  questionId: string;
+}
+
+export function MasteryBadge({ questionId }: Props) {
+  const isInMistakes = useFolderStore(state =>
+    state.folders.some(f => f.id === MISTAKES_FOLDER_ID && f.questionIds.includes(questionId))
+  );
+  const masteryThreshold = useFolderStore(state => state.masteryThreshold);
+  const correctStreak = useProgressStore(state => state.getCorrectStreak(questionId));
+
+  if (!isInMistakes) return null;
+
+  const progress = Math.min(correctStreak, masteryThreshold);
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-xs text-red-500"
+      title={`あと${masteryThreshold - progress}回続けて正解すると「間違えた問題」から外れます`}
+    >
+      <span>克服</span>
+      {Array.from({ length: masteryThreshold }, (_, i) => (
+        <span
+          key={i}
+          className={`w-1.5 h-1.5 rounded-full ${i < progress ? 'bg-green-500' : 'bg-red-200'}`}
+        />
+      ))}
+    </span>
+  );
+}
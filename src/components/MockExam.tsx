@@ -0,0 +1,648 @@
+// 模擬試験 - 過去の1回分をセッションごとの制限時間つきで解き、最後にまとめて採点する
+
+import { useState, useEffect, useMemo } from 'react';
+import type { Question } from '../types/question';
+import { getQuestionRepository } from '../services/questionRepository';
+import { getAnswerKey, gradeAnswer, formatAnswer, type AnswerKind, type AnswerResponse } from '../services/grading';
+import { isHisshu } from '../services/questionService';
+import { getSessionTimeLimitMs, scoreMockExam, type SectionScore } from '../services/mockExam';
+import { getBlueprintYears, getExamBlueprint } from '../data/examBlueprint';
+import { useMockExamStore, type MockExam as MockExamData } from '../store/useMockExamStore';
+import { useProgressStore } from '../store/useProgressStore';
+import { useFolderStore } from '../store/useFolderStore';
+
+interface Props {
+  onExit: () => void;
+}
+
+// 残り時間の表示（1:23:45）
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
+
+// 解答の表示（"AC"、並び替えは "C→A→B"）
+function formatResponse(response: AnswerResponse | undefined, kind: AnswerKind): string {
+  if (!response) return '未解答';
+  if (response.kind === 'numeric') return response.value;
+  return response.choices.map(c => c.toUpperCase()).join(kind === 'ordering' ? '→' : '');
+}
+
+export function MockExam({ onExit }: Props) {
+  const { exam } = useMockExamStore();
+  const [questions, setQuestions] = useState<Question[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getQuestionRepository().list()
+      .then(setQuestions)
+      .catch(error => setLoadError(error instanceof Error ? error.message : String(error)));
+  }, []);
+
+  const questionsById = useMemo(
+    () => new Map((questions || []).map(q => [q.id, q])),
+    [questions]
+  );
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center px-6">
+          <p className="text-xl text-gray-600">問題を読み込めませんでした</p>
+          <p className="text-sm text-gray-500 mt-2">{loadError}</p>
+          <button onClick={onExit} className="mt-6 px-5 py-2 rounded-xl bg-gray-200 text-gray-700 font-medium">
+            戻る
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!questions) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <p className="text-xl text-gray-600">読み込み中...</p>
+      </div>
+    );
+  }
+
+  if (!exam) {
+    return <ExamSetup questions={questions} onExit={onExit} />;
+  }
+  if (exam.finishedAt) {
+    return <ExamResults exam={exam} questionsById={questionsById} onExit={onExit} />;
+  }
+  if (exam.sessions[exam.currentSession].deadline === null) {
+    return <SessionIntro exam={exam} onExit={onExit} />;
+  }
+  return <ExamSession exam={exam} questionsById={questionsById} onExit={onExit} />;
+}
+
+// 回次とセッションを選ぶ
+function ExamSetup({ questions, onExit }: { questions: Question[]; onExit: () => void }) {
+  const { startExam } = useMockExamStore();
+
+  // 回次ごと・セッションごとの問題（問題番号順）
+  const questionsByYear = useMemo(() => {
+    const byYear = new Map<number, Map<string, Question[]>>();
+    for (const q of questions) {
+      const sessions = byYear.get(q.year) || new Map<string, Question[]>();
+      const list = sessions.get(q.session) || [];
+      list.push(q);
+      sessions.set(q.session, list);
+      byYear.set(q.year, sessions);
+    }
+    for (const sessions of byYear.values()) {
+      for (const list of sessions.values()) list.sort((a, b) => a.number - b.number);
+    }
+    return byYear;
+  }, [questions]);
+
+  const years = getBlueprintYears().filter(y => questionsByYear.has(y)).reverse();
+  const [year, setYear] = useState<number | null>(years[0] ?? null);
+  const sessionsOfYear = year !== null ? questionsByYear.get(year) : undefined;
+  const blueprint = year !== null ? getExamBlueprint(year) : undefined;
+  // セッションは出題構成の順に並べ、問題データのないセッションは選べない
+  const sessionNames = sessionsOfYear && blueprint
+    ? blueprint.sessions.map(s => s.name).filter(name => sessionsOfYear.has(name))
+    : [];
+  const [excludedSessions, setExcludedSessions] = useState<string[]>([]);
+  const selectedSessions = sessionNames.filter(name => !excludedSessions.includes(name));
+  // 本番の問題数に足りない数（データの欠けた問題）
+  const missingCount = (name: string) => {
+    const expected = blueprint?.sessions.find(s => s.name === name)?.questionCount ?? 0;
+    return Math.max(0, expected - (sessionsOfYear?.get(name)?.length ?? 0));
+  };
+  const totalMissing = blueprint ? blueprint.sessions.reduce((sum, s) => sum + missingCount(s.name), 0) : 0;
+
+  const toggleSession = (name: string) => {
+    setExcludedSessions(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  const handleStart = () => {
+    if (year === null || !sessionsOfYear || selectedSessions.length === 0) return;
+    startExam(year, selectedSessions.map(name => {
+      const list = sessionsOfYear.get(name) || [];
+      return {
+        name,
+        questionIds: list.map(q => q.id),
+        timeLimitMs: getSessionTimeLimitMs(list.length),
+      };
+    }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      <header className="bg-white border-b border-gray-200 px-4 py-3 flex items-center justify-between">
+        <button onClick={onExit} className="text-gray-600 hover:text-gray-800 font-medium">← 戻る</button>
+        <h1 className="font-bold text-gray-800">模擬試験</h1>
+        <span className="w-12" />
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className="bg-white rounded-xl p-5 shadow-sm">
+          <p className="text-sm text-gray-600 leading-relaxed">
+            過去の1回分を本番と同じ形式で解きます。セッションごとに制限時間があり、正解は最後にまとめて表示されます。
+            中断しても時間は進みます。
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl p-5 shadow-sm">
+          <label className="block text-sm text-gray-600 mb-2">回次</label>
+          {years.length === 0 ? (
+            <p className="text-sm text-gray-500">模擬試験にできる回次がありません</p>
+          ) : (
+            <select
+              value={year ?? ''}
+              onChange={e => {
+                setYear(Number(e.target.value));
+                setExcludedSessions([]);
+              }}
+              className="w-full p-2 rounded-lg border border-gray-300 focus:outline-none focus:border-primary"
+            >
+              {years.map(y => <option key={y} value={y}>第{y}回</option>)}
+            </select>
+          )}
+          {blueprint && (
+            <p className="text-xs text-gray-500 mt-1">試験日 {blueprint.examDate}</p>
+          )}
+
+          {sessionsOfYear && blueprint && (
+            <>
+              <label className="block text-sm text-gray-600 mt-4 mb-2">セッション</label>
+              <div className="space-y-2">
+                {blueprint.sessions.map(({ name, questionCount }) => {
+                  const list = sessionsOfYear.get(name) || [];
+                  const hisshuCount = list.filter(q => isHisshu(q.year, q.session, q.number)).length;
+                  const missing = missingCount(name);
+                  return (
+                    <label key={name} className={`flex items-center gap-3 text-sm ${list.length > 0 ? 'text-gray-700' : 'text-gray-400'}`}>
+                      <input
+                        type="checkbox"
+                        checked={list.length > 0 && !excludedSessions.includes(name)}
+                        disabled={list.length === 0}
+                        onChange={() => toggleSession(name)}
+                      />
+                      <span className="font-bold w-6">{name}</span>
+                      <span className="flex-1">
+                        {list.length}問{hisshuCount > 0 && `（必修 ${hisshuCount}問）`}
+                        {missing > 0 && <span className="text-orange-500 ml-1">本番{questionCount}問中 {missing}問なし</span>}
+                      </span>
+                      <span className="text-gray-500">{formatDuration(getSessionTimeLimitMs(list.length))}</span>
+                    </label>
+                  );
+                })}
+              </div>
+              {totalMissing > 0 && (
+                <p className="text-xs text-orange-500 mt-3">
+                  この回は問題データが {totalMissing}問 足りないため、本番より短い試験になります（制限時間は収録されている問題数で計算します）
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <footer className="bg-white border-t border-gray-200 p-4">
+        <button
+          onClick={handleStart}
+          disabled={selectedSessions.length === 0}
+          className={`w-full py-4 rounded-xl font-bold text-lg transition-all ${
+            selectedSessions.length > 0 ? 'bg-primary text-white active:bg-blue-700' : 'bg-gray-200 text-gray-400'
+          }`}
+        >
+          試験を始める
+        </button>
+      </footer>
+    </div>
+  );
+}
+
+// セッションの開始前
+function SessionIntro({ exam, onExit }: { exam: MockExamData; onExit: () => void }) {
+  const { startSession, clearExam } = useMockExamStore();
+  const session = exam.sessions[exam.currentSession];
+
+  const handleQuit = () => {
+    if (!confirm('模擬試験をやめますか？解答はすべて破棄されます')) return;
+    clearExam();
+    onExit();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col items-center justify-center px-6 text-center">
+      <p className="text-sm text-gray-500">第{exam.year}回 模擬試験（{exam.currentSession + 1} / {exam.sessions.length}）</p>
+      <h1 className="text-3xl font-bold text-gray-800 mt-2">{session.name}問題</h1>
+      <p className="text-gray-600 mt-4">
+        {session.questionIds.length}問 ・ 制限時間 {formatDuration(session.timeLimitMs)}
+      </p>
+      <p className="text-xs text-gray-400 mt-2">開始すると時間の計測が始まります</p>
+      <button
+        onClick={startSession}
+        className="mt-8 w-full max-w-xs py-4 rounded-xl font-bold text-lg bg-primary text-white active:bg-blue-700"
+      >
+        開始
+      </button>
+      <div className="flex gap-6 mt-4">
+        <button onClick={onExit} className="text-sm text-gray-500">あとで続ける</button>
+        <button onClick={handleQuit} className="text-sm text-red-500">模擬試験をやめる</button>
+      </div>
+    </div>
+  );
+}
+
+// セッション中（正誤は表示しない）
+function ExamSession({ exam, questionsById, onExit }: { exam: MockExamData; questionsById: Map<string, Question>; onExit: () => void }) {
+  const { setAnswer, toggleFlag, submitSession } = useMockExamStore();
+  const session = exam.sessions[exam.currentSession];
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [showNavigator, setShowNavigator] = useState(false);
+  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+
+  // 残り時間の更新
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remainingMs = (session.deadline ?? now) - now;
+
+  // 時間切れで自動的に提出
+  useEffect(() => {
+    if (remainingMs <= 0) {
+      submitSession();
+      setCurrentIndex(0);
+    }
+  }, [remainingMs, submitSession]);
+
+  const questionId = session.questionIds[currentIndex];
+  const question = questionsById.get(questionId);
+  const response = exam.answers[questionId];
+  const answerKey = question ? getAnswerKey(question) : null;
+  const selected = response?.kind === 'choices' ? response.choices : [];
+  const isFlagged = exam.flags.includes(questionId);
+  const unansweredCount = session.questionIds.filter(id => !exam.answers[id]).length;
+
+  // 選択肢をタップ（並び替え問題ではタップした順が解答になる）
+  const handleChoiceClick = (key: string) => {
+    let choices: string[];
+    if (selected.includes(key)) {
+      choices = selected.filter(c => c !== key);
+    } else if (answerKey?.kind === 'single') {
+      choices = [key];
+    } else {
+      choices = [...selected, key];
+    }
+    setAnswer(questionId, choices.length > 0 ? { kind: 'choices', choices } : null);
+  };
+
+  const handleNumericChange = (value: string) => {
+    setAnswer(questionId, value.trim() !== '' ? { kind: 'numeric', value } : null);
+  };
+
+  const handleSubmit = () => {
+    const message = unansweredCount > 0
+      ? `未解答が${unansweredCount}問あります。${session.name}問題を提出しますか？`
+      : `${session.name}問題を提出しますか？`;
+    if (!confirm(message)) return;
+    submitSession();
+    setCurrentIndex(0);
+  };
+
+  const goTo = (index: number) => {
+    setCurrentIndex(index);
+    setShowNavigator(false);
+  };
+
+  const sortedChoices = question
+    ? Object.entries(question.choices).sort(([a], [b]) => a.localeCompare(b))
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      {/* ヘッダー */}
+      <header className="bg-white border-b border-gray-200 px-4 py-3 flex items-center justify-between">
+        <button onClick={onExit} className="text-gray-600 hover:text-gray-800 font-medium">
+          中断
+        </button>
+        <span className="text-sm text-gray-500">
+          {exam.year}{session.name} {currentIndex + 1} / {session.questionIds.length}
+        </span>
+        <span className={`text-sm font-bold tabular-nums ${remainingMs < 10 * 60 * 1000 ? 'text-red-600' : 'text-gray-800'}`}>
+          ⏱ {formatDuration(remainingMs)}
+        </span>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4">
+        {!question ? (
+          <p className="text-center text-gray-500 mt-8">{questionId} を読み込めませんでした</p>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl p-5 mb-4 shadow-sm">
+              <div className="flex items-start justify-between gap-3 mb-2">
+                <span className="text-xs text-gray-400">
+                  {question.id}{isHisshu(question.year, question.session, question.number) && ' ・ 必修'}
+                </span>
+                <button
+                  onClick={() => toggleFlag(questionId)}
+                  className={`text-xs px-2 py-1 rounded font-medium ${
+                    isFlagged ? 'bg-yellow-100 text-yellow-700' : 'bg-gray-100 text-gray-500'
+                  }`}
+                >
+                  {isFlagged ? '🚩 見直す' : '🏳 印をつける'}
+                </button>
+              </div>
+              <p className="text-gray-800 leading-relaxed">{question.questionText}</p>
+            </div>
+
+            {question.images.length > 0 && (
+              <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+                {question.images.map((img, idx) => (
+                  <img
+                    key={idx}
+                    src={img}
+                    alt={`図${idx + 1}`}
+                    className="h-32 w-auto rounded-lg border border-gray-200 cursor-pointer"
+                    onClick={() => setSelectedImage(img)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {answerKey?.kind === 'numeric' ? (
+              <div className="bg-white rounded-xl p-4 shadow-sm">
+                <label className="block text-sm text-gray-500 mb-2">答えを数値で入力してください</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={response?.kind === 'numeric' ? response.value : ''}
+                  onChange={e => handleNumericChange(e.target.value)}
+                  className="w-full p-3 rounded-lg border-2 border-gray-200 text-lg focus:outline-none focus:border-primary"
+                />
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {answerKey?.kind === 'ordering' && (
+                  <p className="text-sm text-gray-500 text-center">正しい順にタップしてください</p>
+                )}
+                {answerKey?.kind === 'multi' && (
+                  <p className="text-sm text-gray-500 text-center">{question.choiceCount}つ選んでください</p>
+                )}
+                {sortedChoices.map(([key, value]) => {
+                  const orderIndex = selected.indexOf(key);
+                  return (
+                    <button
+                      key={key}
+                      onClick={() => handleChoiceClick(key)}
+                      className={`w-full p-4 rounded-xl border-2 text-left transition-all ${
+                        orderIndex !== -1 ? 'border-primary bg-blue-50' : 'border-gray-200 bg-white active:bg-gray-100'
+                      }`}
+                    >
+                      {answerKey?.kind === 'ordering' && orderIndex !== -1 && (
+                        <span className="inline-block w-6 h-6 mr-2 rounded-full bg-primary text-white text-sm text-center leading-6">
+                          {orderIndex + 1}
+                        </span>
+                      )}
+                      <span className="font-bold mr-2 text-gray-500">{key.toUpperCase()}.</span>
+                      <span className="text-gray-800">{value}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      {/* 問題一覧（解答済み・印つき） */}
+      {showNavigator && (
+        <div className="bg-white border-t border-gray-200 p-4 max-h-64 overflow-y-auto">
+          <div className="flex items-center justify-between text-xs text-gray-500 mb-3">
+            <span>未解答 {unansweredCount}問 ・ 印 {session.questionIds.filter(id => exam.flags.includes(id)).length}問</span>
+            <button onClick={handleSubmit} className="px-3 py-1 rounded-lg bg-primary text-white font-medium">
+              {session.name}問題を提出
+            </button>
+          </div>
+          <div className="grid grid-cols-10 gap-1">
+            {session.questionIds.map((id, index) => {
+              const isAnswered = !!exam.answers[id];
+              return (
+                <button
+                  key={id}
+                  onClick={() => goTo(index)}
+                  className={`relative h-8 rounded text-xs font-medium ${
+                    isAnswered ? 'bg-primary text-white' : 'bg-gray-100 text-gray-600'
+                  } ${index === currentIndex ? 'ring-2 ring-primary ring-offset-1' : ''}`}
+                >
+                  {index + 1}
+                  {exam.flags.includes(id) && (
+                    <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-yellow-400" />
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* フッター: 前後の移動 */}
+      <footer className="bg-white border-t border-gray-200 p-4 flex gap-3">
+        <button
+          onClick={() => setCurrentIndex(i => Math.max(0, i - 1))}
+          disabled={currentIndex === 0}
+          className={`flex-1 py-3 rounded-xl font-bold ${currentIndex === 0 ? 'bg-gray-100 text-gray-300' : 'bg-gray-200 text-gray-700'}`}
+        >
+          ← 前
+        </button>
+        <button
+          onClick={() => setShowNavigator(v => !v)}
+          className="px-4 py-3 rounded-xl font-bold bg-gray-200 text-gray-700"
+        >
+          一覧
+        </button>
+        {currentIndex < session.questionIds.length - 1 ? (
+          <button
+            onClick={() => setCurrentIndex(i => i + 1)}
+            className="flex-1 py-3 rounded-xl font-bold bg-primary text-white active:bg-blue-700"
+          >
+            次 →
+          </button>
+        ) : (
+          <button
+            onClick={handleSubmit}
+            className="flex-1 py-3 rounded-xl font-bold bg-orange-500 text-white active:bg-orange-600"
+          >
+            提出
+          </button>
+        )}
+      </footer>
+
+      {/* 画像拡大モーダル */}
+      {selectedImage && (
+        <div
+          className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center p-4"
+          onClick={() => setSelectedImage(null)}
+        >
+          <img src={selectedImage} alt="拡大" className="max-w-full max-h-full object-contain" />
+          <button onClick={() => setSelectedImage(null)} className="absolute top-4 right-4 text-white text-2xl">
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 区分ごとの得点カード
+function SectionCard({ title, score, absolute }: { title: string; score: SectionScore; absolute: boolean }) {
+  return (
+    <div className={`rounded-xl p-4 ${score.passed ? 'bg-green-50' : 'bg-red-50'}`}>
+      <div className="flex items-center justify-between">
+        <p className="font-bold text-gray-800">{title}</p>
+        <span className={`text-xs px-2 py-1 rounded font-bold ${score.passed ? 'bg-green-600 text-white' : 'bg-red-600 text-white'}`}>
+          {score.passed ? '合格' : '不合格'}
+        </span>
+      </div>
+      <p className="text-2xl font-bold text-gray-800 mt-2">
+        {Math.round(score.rate * 100)}%
+        <span className="text-sm font-medium text-gray-500 ml-2">{score.correct} / {score.total}問</span>
+      </p>
+      <p className="text-xs text-gray-500 mt-1">
+        {absolute ? '合格基準' : '合格の目安'} {Math.round(score.threshold * 100)}%
+        {absolute ? '（絶対評価）' : '（実際は相対評価）'}
+      </p>
+    </div>
+  );
+}
+
+// 結果
+function ExamResults({ exam, questionsById, onExit }: { exam: MockExamData; questionsById: Map<string, Question>; onExit: () => void }) {
+  const { clearExam, markRecorded } = useMockExamStore();
+  const { recordAnswer, getCorrectStreak } = useProgressStore();
+  const { trackMistake } = useFolderStore();
+
+  const questions = useMemo(
+    () => exam.sessions
+      .flatMap(s => s.questionIds)
+      .map(id => questionsById.get(id))
+      .filter((q): q is Question => !!q),
+    [exam, questionsById]
+  );
+  const result = useMemo(() => scoreMockExam(exam.year, questions, exam.answers), [exam, questions]);
+
+  // 解答した問題を解答ログに記録（1回だけ）
+  useEffect(() => {
+    if (exam.recorded) return;
+    for (const q of questions) {
+      const response = exam.answers[q.id];
+      if (!response) continue;
+      const grade = gradeAnswer(q, response);
+      if (!grade.counted) continue;
+      recordAnswer({
+        questionId: q.id,
+        response,
+        isCorrect: grade.isCorrect,
+        timeSpentMs: null,
+        source: 'mock',
+        subject: q.category,
+      });
+      trackMistake(q.id, getCorrectStreak(q.id));
+    }
+    markRecorded();
+  }, [exam.recorded, exam.answers, questions, recordAnswer, trackMistake, getCorrectStreak, markRecorded]);
+
+  const handleClose = () => {
+    clearExam();
+    onExit();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      <header className="bg-white border-b border-gray-200 px-4 py-3 flex items-center justify-between">
+        <span className="w-12" />
+        <h1 className="font-bold text-gray-800">第{exam.year}回 模擬試験の結果</h1>
+        <span className="w-12" />
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className={`rounded-xl p-5 text-center ${result.passed ? 'bg-green-600' : 'bg-red-600'} text-white`}>
+          <p className="text-sm opacity-80">判定</p>
+          <p className="text-3xl font-bold">{result.passed ? '合格圏' : '不合格圏'}</p>
+          {!result.hisshu.passed && result.hisshu.total > 0 && (
+            <p className="text-sm mt-1">必修が基準に届いていません</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <SectionCard title="必修問題" score={result.hisshu} absolute />
+          <SectionCard title="一般問題" score={result.general} absolute={false} />
+        </div>
+
+        {/* セッションごと */}
+        <div className="bg-white rounded-xl p-4 shadow-sm">
+          <p className="font-bold text-gray-800 mb-2">セッション別</p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500">
+                <th className="text-left font-medium py-1">セッション</th>
+                <th className="text-right font-medium">必修</th>
+                <th className="text-right font-medium">一般</th>
+                <th className="text-right font-medium">未解答</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.bySession.map(s => (
+                <tr key={s.session} className="border-t border-gray-100 text-gray-700">
+                  <td className="py-1 font-bold">{s.session}</td>
+                  <td className="text-right">{s.hisshu.total > 0 ? `${s.hisshu.correct} / ${s.hisshu.total}` : '-'}</td>
+                  <td className="text-right">{s.general.correct} / {s.general.total}</td>
+                  <td className="text-right">{s.unanswered}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* 間違えた問題 */}
+        {result.missedIds.length > 0 && (
+          <div className="bg-white rounded-xl p-4 shadow-sm">
+            <p className="font-bold text-gray-800 mb-2">間違えた問題（{result.missedIds.length}問）</p>
+            <ul className="space-y-2">
+              {result.missedIds.map(id => {
+                const q = questionsById.get(id);
+                if (!q) return null;
+                return (
+                  <li key={id} className="text-sm border-t border-gray-100 pt-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-700">{id}</span>
+                      {exam.flags.includes(id) && <span className="text-xs">🚩</span>}
+                      <span className="text-xs text-gray-500 ml-auto">
+                        解答 <span className="text-red-600 font-bold">{formatResponse(exam.answers[id], getAnswerKey(q).kind)}</span>
+                        {' ・ '}正答 <span className="text-green-600 font-bold">{formatAnswer(q)}</span>
+                      </span>
+                    </div>
+                    <p className="text-gray-500 truncate mt-1">{q.questionText}</p>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </main>
+
+      <footer className="bg-white border-t border-gray-200 p-4">
+        <button
+          onClick={handleClose}
+          className="w-full py-4 rounded-xl font-bold text-lg bg-primary text-white active:bg-blue-700"
+        >
+          終了
+        </button>
+      </footer>
+    </div>
+  );
+}
@@ -3,6 +3,21 @@
 import { useState, useEffect } from 'react';
 import type { Question } from '../types/question';
 import { useProgressStore } from '../store/useProgressStore';
+import { useFolderStore } from '../store/useFolderStore';
+import { MasteryBadge } from './MasteryBadge';
+import { ConfidencePicker } from './ConfidencePicker';
+import { QuestionTimer } from './QuestionTimer';
+import {
+  getAnswerKey,
+  gradeAnswer,
+  formatAnswer,
+  isCorrectChoice,
+  type AnswerResponse,
+  type ChoiceMark,
+  type GradeResult,
+} from '../services/grading';
+import { formatChoiceKeys, getChoiceLayout } from '../services/choiceOrder';
+import { createSeed } from '../services/random';
 
 interface Props {
   question: Question;
@@ -10,50 +25,40 @@ interface Props {
   onToggleAnswer: () => void;
 }
 
-// 問題タイプの判定
-type QuestionType = 'calculation' | 'ordering' | 'normal';
-
-function getQuestionType(question: Question): QuestionType {
-  const answer = question.answer;
-
-  // 計算問題: 答えが数字のみ
-  if (/^[0-9.]+$/.test(answer.trim())) {
-    return 'calculation';
-  }
-
-  // 並び替え問題: 答えが5文字のa-e（順序が重要）
-  if (/^[A-Ea-e]{5}$/.test(answer)) {
-    return 'ordering';
-  }
-
-  return 'normal';
-}
-
-// 並び替え問題の答えを読みやすい形式に変換
-function formatOrderingAnswer(answer: string, choices: Record<string, string>): string {
-  return answer
-    .toLowerCase()
-    .split('')
-    .map(key => choices[key] || key.toUpperCase())
-    .join('→');
-}
-
 export function QuestionDetail({ question, showAnswer, onToggleAnswer }: Props) {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [selectedChoices, setSelectedChoices] = useState<Set<string>>(new Set());
+  const [numericInput, setNumericInput] = useState('');
+  const [grade, setGrade] = useState<GradeResult | null>(null);
   const [hasAnswered, setHasAnswered] = useState(false);
-  const { recordAnswer, answeredQuestions } = useProgressStore();
+  // 問題を表示した時刻と解答した時刻（解答時間の計測用）
+  const [questionShownAt, setQuestionShownAt] = useState(Date.now());
+  const [answeredAt, setAnsweredAt] = useState<number | null>(null);
+  const { recordAnswer, getCorrectStreak, answeredQuestions, shuffleChoices } = useProgressStore();
+  // 選択肢の並び替えのシード（この画面を開いている間は同じ並び）
+  const [choiceSeed] = useState(createSeed);
+  const { trackMistake } = useFolderStore();
 
   // 問題が変わったらリセット
   useEffect(() => {
     setSelectedChoices(new Set());
+    setNumericInput('');
+    setGrade(null);
     setHasAnswered(answeredQuestions.has(question.id));
   }, [question.id, answeredQuestions]);
 
-  // 選択肢をアルファベット順にソート
-  const sortedChoices = Object.entries(question.choices).sort(
-    ([a], [b]) => a.localeCompare(b)
-  );
+  // 問題が変わったら計測をやり直す
+  useEffect(() => {
+    setQuestionShownAt(Date.now());
+    setAnsweredAt(null);
+  }, [question.id]);
+
+  // 正答の種類
+  const answerKey = getAnswerKey(question);
+  const canSubmit = answerKey.kind === 'numeric' ? numericInput.trim() !== '' : selectedChoices.size > 0;
+
+  // 選択肢の表示順（並び替えしないときはアルファベット順）
+  const choiceLayout = getChoiceLayout(question, shuffleChoices ? choiceSeed : null);
 
   // 選択肢をクリック
   const handleChoiceClick = (key: string) => {
@@ -65,7 +70,7 @@ export function QuestionDetail({ question, showAnswer, onToggleAnswer }: Props)
         next.delete(key);
       } else {
         // 単一選択の場合はクリア
-        if (question.choiceCount === 1) {
+        if (answerKey.kind === 'single') {
           next.clear();
         }
         next.add(key);
@@ -76,44 +81,52 @@ export function QuestionDetail({ question, showAnswer, onToggleAnswer }: Props)
 
   // 解答を確定
   const handleSubmitAnswer = () => {
-    if (selectedChoices.size === 0 || hasAnswered) return;
+    if (!canSubmit || hasAnswered) return;
 
-    // 正解判定
-    const correctAnswers = question.answer.toLowerCase().split('').filter(c => /[a-e]/.test(c));
-    const selectedArray = [...selectedChoices].sort();
-    const isCorrect =
-      correctAnswers.length === selectedArray.length &&
-      correctAnswers.every(c => selectedChoices.has(c));
+    const response: AnswerResponse = answerKey.kind === 'numeric'
+      ? { kind: 'numeric', value: numericInput }
+      : { kind: 'choices', choices: [...selectedChoices] };
+    const result = gradeAnswer(question, response);
+    const now = Date.now();
 
-    // 進捗を記録
-    recordAnswer(question.id, isCorrect);
+    // 進捗を記録（採点除外は記録しない）
+    if (result.counted) {
+      recordAnswer({
+        questionId: question.id,
+        response,
+        isCorrect: result.isCorrect,
+        timeSpentMs: now - questionShownAt,
+        source: 'detail',
+        subject: question.category,
+      });
+      trackMistake(question.id, getCorrectStreak(question.id));
+    }
+    setGrade(result);
+    setAnsweredAt(now);
     setHasAnswered(true);
     onToggleAnswer(); // 正答を表示
   };
 
-  // 問題タイプを取得
-  const questionType = getQuestionType(question);
-
-  // 通常問題の場合の正解判定
-  const isCorrectChoice = (key: string): boolean => {
-    if (questionType !== 'normal') return false;
-    return question.answer.toLowerCase().includes(key);
+  // 選択肢ごとの判定（解答済みなら採点結果、正答を見ただけなら正答の選択肢のみ）
+  const getChoiceMark = (key: string): ChoiceMark => {
+    if (grade) {
+      // 並び替え問題の未選択は正答扱いで強調しない
+      const mark = grade.choiceMarks[key] || 'neutral';
+      return answerKey.kind === 'ordering' && mark === 'missed' ? 'neutral' : mark;
+    }
+    return isCorrectChoice(question, key) ? 'missed' : 'neutral';
   };
 
   // 選択肢のスタイルを決定
   const getChoiceStyle = (key: string) => {
     const isSelected = selectedChoices.has(key);
-    const isCorrect = isCorrectChoice(key);
 
     if (showAnswer || hasAnswered) {
-      // 計算問題・並び替え問題では選択肢のハイライトなし
-      if (questionType !== 'normal') {
-        return 'border-gray-200 bg-gray-50';
-      }
-      if (isCorrect) {
+      const mark = getChoiceMark(key);
+      if (mark === 'correct' || mark === 'missed') {
         return 'border-green-500 bg-green-50';
       }
-      if (isSelected && !isCorrect) {
+      if (mark === 'wrong') {
         return 'border-red-500 bg-red-50';
       }
       return 'border-gray-200 bg-gray-50';
@@ -141,8 +154,13 @@ export function QuestionDetail({ question, showAnswer, onToggleAnswer }: Props)
               解答済み
             </span>
           )}
+          <MasteryBadge questionId={question.id} />
         </div>
         <div className="flex items-center gap-2">
+          {/* 解答済みの問題を開いたときは計測しない */}
+          {(!hasAnswered || answeredAt !== null) && (
+            <QuestionTimer startedAt={questionShownAt} stoppedAt={answeredAt} />
+          )}
           {question.images.length > 0 && (
             <span className="text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded">
               画像 {question.images.length}枚
@@ -210,32 +228,53 @@ export function QuestionDetail({ question, showAnswer, onToggleAnswer }: Props)
 
       {/* 選択肢 */}
       <div className="space-y-2 mb-6">
-        {question.choiceCount > 1 && !hasAnswered && !showAnswer && (
+        {answerKey.kind === 'multi' && !hasAnswered && !showAnswer && (
           <p className="text-sm text-gray-500 mb-2">
             {question.choiceCount}つ選んでください（選択中: {selectedChoices.size}）
           </p>
         )}
-        {sortedChoices.map(([key, value]) => {
-          const isCorrect = isCorrectChoice(key);
-          const isSelected = selectedChoices.has(key);
+        {answerKey.kind === 'ordering' && !hasAnswered && !showAnswer && (
+          <p className="text-sm text-gray-500 mb-2">
+            正しい順にクリックしてください（選択中: {selectedChoices.size}）
+          </p>
+        )}
+        {choiceLayout.order.map(key => {
+          const isRevealed = showAnswer || hasAnswered;
+          const mark = getChoiceMark(key);
+          const orderIndex = [...selectedChoices].indexOf(key);
           return (
             <div
               key={key}
               onClick={() => handleChoiceClick(key)}
               className={`p-3 rounded-lg border transition-colors ${getChoiceStyle(key)}`}
             >
-              <span className="font-medium mr-2">{key}.</span>
-              <span>{value}</span>
-              {/* 通常問題のみ✓/✗マークを表示 */}
-              {questionType === 'normal' && (showAnswer || hasAnswered) && isCorrect && (
+              {answerKey.kind === 'ordering' && orderIndex !== -1 && (
+                <span className="inline-block w-5 h-5 mr-2 rounded-full bg-primary text-white text-xs text-center leading-5">
+                  {orderIndex + 1}
+                </span>
+              )}
+              <span className="font-medium mr-2">{choiceLayout.labels[key].toLowerCase()}.</span>
+              <span>{question.choices[key]}</span>
+              {isRevealed && (mark === 'correct' || mark === 'missed') && (
                 <span className="ml-2 text-green-600 font-bold">✓</span>
               )}
-              {questionType === 'normal' && (showAnswer || hasAnswered) && isSelected && !isCorrect && (
+              {isRevealed && mark === 'wrong' && (
                 <span className="ml-2 text-red-600 font-bold">✗</span>
               )}
             </div>
           );
         })}
+        {/* 計算問題は数値で解答 */}
+        {answerKey.kind === 'numeric' && !hasAnswered && !showAnswer && (
+          <input
+            type="text"
+            inputMode="decimal"
+            value={numericInput}
+            onChange={e => setNumericInput(e.target.value)}
+            placeholder="答えを数値で入力"
+            className="w-full p-3 rounded-lg border border-gray-300 focus:outline-none focus:border-primary"
+          />
+        )}
       </div>
 
       {/* ボタン */}
@@ -243,9 +282,9 @@ export function QuestionDetail({ question, showAnswer, onToggleAnswer }: Props)
         <div className="flex gap-3">
           <button
             onClick={handleSubmitAnswer}
-            disabled={selectedChoices.size === 0}
+            disabled={!canSubmit}
             className={`flex-1 py-3 rounded-lg font-medium transition-colors ${
-              selectedChoices.size > 0
+              canSubmit
                 ? 'bg-primary text-white hover:bg-blue-700'
                 : 'bg-gray-200 text-gray-400 cursor-not-allowed'
             }`}
@@ -275,33 +314,45 @@ export function QuestionDetail({ question, showAnswer, onToggleAnswer }: Props)
             ? 'bg-red-50 border-red-200'
             : 'bg-green-50 border-green-200'
         }`}>
-          {question.isExcluded ? (
+          {answerKey.kind === 'excluded' ? (
             <p className="text-red-700">
               <span className="font-bold">この問題は採点除外となりました</span>
             </p>
-          ) : questionType === 'calculation' ? (
+          ) : answerKey.kind === 'numeric' ? (
             <p className="text-gray-800">
               <span className="font-bold">正答: </span>
-              <span className="text-green-700 font-bold text-lg">{question.answer}</span>
+              <span className="text-green-700 font-bold text-lg">{formatAnswer(question)}</span>
+              {grade && (
+                <span className={`ml-3 text-sm font-bold ${grade.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                  {grade.isCorrect ? '✓ 正解' : `✗ あなたの解答: ${numericInput}`}
+                </span>
+              )}
             </p>
-          ) : questionType === 'ordering' ? (
+          ) : answerKey.kind === 'ordering' ? (
             <div className="text-gray-800">
               <p className="mb-1">
                 <span className="font-bold">正答: </span>
-                <span className="text-green-700 font-bold">{question.answer}</span>
+                <span className="text-green-700 font-bold">{formatChoiceKeys(answerKey.order, choiceLayout.labels, true)}</span>
               </p>
               <p className="text-sm text-gray-600">
-                （{formatOrderingAnswer(question.answer, question.choices)}）
+                （{formatAnswer(question)}）
               </p>
             </div>
           ) : (
             <p className="text-gray-800">
               <span className="font-bold">正答: </span>
-              <span className="text-green-700 font-bold">{question.answer}</span>
+              <span className="text-green-700 font-bold">{formatAnswer(question, choiceLayout.labels)}</span>
             </p>
           )}
         </div>
       )}
+
+      {/* 自信度（この画面で解答したときだけ） */}
+      {grade?.counted && (
+        <div className="mt-3">
+          <ConfidencePicker questionId={question.id} />
+        </div>
+      )}
     </div>
   );
 }
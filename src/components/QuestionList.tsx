@@ -1,10 +1,38 @@
 // 問題一覧コンポーネント
 
+import { useEffect } from 'react';
 import { useStore } from '../store/useStore';
 import { QuestionCard } from './QuestionCard';
 
 export function QuestionList() {
-  const { filteredQuestions, selectedQuestion, selectQuestion } = useStore();
+  const { filteredQuestions, selectedQuestion, selectQuestion, meta, isLoading, error, loadData } = useStore();
+
+  // 初回表示時にデータを読み込む
+  useEffect(() => {
+    if (!meta && !isLoading) {
+      loadData();
+    }
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <p className="text-lg">読み込み中...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <p className="text-lg text-red-600">データを読み込めませんでした</p>
+        <p className="text-sm mt-2">{error}</p>
+        <button onClick={loadData} className="mt-4 text-sm text-primary hover:underline">
+          再読み込み
+        </button>
+      </div>
+    );
+  }
 
   if (filteredQuestions.length === 0) {
     return (
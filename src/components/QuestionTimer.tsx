@@ -0,0 +1,38 @@
+// 解答時間のストップウォッチ（タップで目安時間までのカウントダウン表示に切り替え）
+
+import { useState, useEffect } from 'react';
+import { useProgressStore } from '../store/useProgressStore';
+import { TARGET_TIME_PER_QUESTION_MS, formatElapsed } from '../services/timing';
+
+interface Props {
+  startedAt: number;        // 問題を表示した時刻
+  stoppedAt: number | null; // 解答した時刻（解答するまでは null）
+}
+
+export function QuestionTimer({ startedAt, stoppedAt }: Props) {
+  const { showCountdown, setShowCountdown } = useProgressStore();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (stoppedAt !== null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [stoppedAt]);
+
+  const elapsed = Math.max(0, (stoppedAt ?? now) - startedAt);
+  const isOver = elapsed > TARGET_TIME_PER_QUESTION_MS;
+
+  return (
+    <button
+      onClick={() => setShowCountdown(!showCountdown)}
+      title={showCountdown ? '経過時間を表示' : `目安（${formatElapsed(TARGET_TIME_PER_QUESTION_MS)}）までの残りを表示`}
+      className={`text-sm font-medium tabular-nums ${
+        isOver ? 'text-red-600' : stoppedAt !== null ? 'text-gray-800' : 'text-gray-500'
+      }`}
+    >
+      ⏱ {showCountdown
+        ? (isOver ? `+${formatElapsed(elapsed - TARGET_TIME_PER_QUESTION_MS)}` : formatElapsed(TARGET_TIME_PER_QUESTION_MS - elapsed))
+        : formatElapsed(elapsed)}
+    </button>
+  );
+}
@@ -0,0 +1,305 @@
+// 問題セットの作成 - 条件を指定して固定の問題セットを作る（条件はプリセットとして保存できる）
+
+import { useState, useEffect, useMemo } from 'react';
+import type { Question } from '../types/question';
+import { getQuestionRepository } from '../services/questionRepository';
+import {
+  buildQuiz,
+  filterQuizQuestions,
+  DEFAULT_QUIZ_CONFIG,
+  type QuizConfig,
+  type QuizContext,
+  type QuizStatusFilter,
+} from '../services/quizBuilder';
+import { subjectCategories } from '../data/subjects';
+import { useQuizStore } from '../store/useQuizStore';
+import { useProgressStore } from '../store/useProgressStore';
+import { useFolderStore, BOOKMARK_FOLDER_ID } from '../store/useFolderStore';
+import { useFlashcardStore } from '../store/useFlashcardStore';
+
+interface Props {
+  onStartQuiz: () => void;
+  onExit: () => void;
+}
+
+const COUNT_OPTIONS = [10, 20, 30, 50, 100];
+const WEIGHT_OPTIONS = [1, 2, 3];
+
+const STATUS_OPTIONS: { value: QuizStatusFilter; label: string }[] = [
+  { value: 'all', label: 'すべて' },
+  { value: 'unseen', label: '未解答' },
+  { value: 'wrong-last', label: '前回不正解・勘' },
+  { value: 'bookmarked', label: 'ブックマーク' },
+  { value: 'due', label: '復習日' },
+];
+
+export function QuizBuilder({ onStartQuiz, onExit }: Props) {
+  const { presets, activeQuiz, savePreset, deletePreset, startQuiz, clearQuiz } = useQuizStore();
+  const { answeredQuestions, attempts } = useProgressStore();
+  const bookmarkFolder = useFolderStore(state => state.getFolder(BOOKMARK_FOLDER_ID));
+  const { cards, getDueQueue } = useFlashcardStore();
+
+  const [questions, setQuestions] = useState<Question[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [config, setConfig] = useState<QuizConfig>(DEFAULT_QUIZ_CONFIG);
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    getQuestionRepository().list()
+      .then(setQuestions)
+      .catch(error => setLoadError(error instanceof Error ? error.message : String(error)));
+  }, []);
+
+  const years = useMemo(
+    () => [...new Set((questions || []).map(q => q.year))].sort((a, b) => a - b),
+    [questions]
+  );
+
+  const context: QuizContext = useMemo(() => ({
+    answeredIds: answeredQuestions,
+    attempts,
+    bookmarkedIds: new Set(bookmarkFolder?.questionIds || []),
+    dueIds: new Set(getDueQueue().map(c => c.questionId)),
+  }), [answeredQuestions, attempts, bookmarkFolder, cards, getDueQueue]);
+
+  const matchingCount = useMemo(
+    () => questions ? filterQuizQuestions(questions, config, context).length : 0,
+    [questions, config, context]
+  );
+
+  const update = (patch: Partial<QuizConfig>) => setConfig(prev => ({ ...prev, ...patch }));
+
+  const setSubjectWeight = (subject: string, weight: number) => {
+    const subjectWeights = { ...config.subjectWeights };
+    if (weight > 0) {
+      subjectWeights[subject] = weight;
+    } else {
+      delete subjectWeights[subject];
+    }
+    update({ subjectWeights });
+  };
+
+  const handleStart = () => {
+    if (!questions || matchingCount === 0) return;
+    if (activeQuiz && activeQuiz.currentIndex < activeQuiz.questionIds.length &&
+        !confirm('解いている問題セットを破棄して新しく始めますか？')) return;
+    const questionIds = buildQuiz(questions, config, context);
+    startQuiz(questionIds, config, presetName.trim() || null);
+    onStartQuiz();
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    savePreset(name, config);
+  };
+
+  const isQuizInProgress = activeQuiz && activeQuiz.currentIndex < activeQuiz.questionIds.length;
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      <header className="bg-white border-b border-gray-200 px-4 py-3 flex items-center justify-between">
+        <button onClick={onExit} className="text-gray-600 hover:text-gray-800 font-medium">← 戻る</button>
+        <h1 className="font-bold text-gray-800">問題セット</h1>
+        <span className="w-12" />
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* 解いている問題セット */}
+        {isQuizInProgress && activeQuiz && (
+          <div className="bg-white rounded-xl p-4 shadow-sm flex items-center justify-between">
+            <div>
+              <p className="font-bold text-gray-800">{activeQuiz.name || '問題セット'}の続き</p>
+              <p className="text-xs text-gray-500">{activeQuiz.currentIndex} / {activeQuiz.questionIds.length}問</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <button onClick={clearQuiz} className="text-xs text-red-500">破棄</button>
+              <button onClick={onStartQuiz} className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-medium">
+                続ける
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* プリセット */}
+        {presets.length > 0 && (
+          <div className="bg-white rounded-xl p-4 shadow-sm">
+            <p className="text-sm text-gray-600 mb-2">プリセット</p>
+            <div className="flex flex-wrap gap-2">
+              {presets.map(preset => (
+                <span key={preset.id} className="flex items-center bg-gray-100 rounded-full text-sm">
+                  <button
+                    onClick={() => {
+                      setConfig(preset.config);
+                      setPresetName(preset.name);
+                    }}
+                    className={`pl-3 pr-1 py-1 ${presetName === preset.name ? 'text-primary font-bold' : 'text-gray-700'}`}
+                  >
+                    {preset.name}
+                  </button>
+                  <button
+                    onClick={() => deletePreset(preset.id)}
+                    className="pr-3 pl-1 py-1 text-gray-400 hover:text-red-500"
+                    aria-label={`${preset.name}を削除`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {loadError ? (
+          <p className="text-center text-sm text-gray-500">問題を読み込めませんでした: {loadError}</p>
+        ) : (
+          <div className="bg-white rounded-xl p-4 shadow-sm space-y-4">
+            {/* 問題数 */}
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">問題数</label>
+              <div className="flex gap-2">
+                {COUNT_OPTIONS.map(n => (
+                  <button
+                    key={n}
+                    onClick={() => update({ count: n })}
+                    className={`flex-1 py-1.5 rounded-lg text-sm ${config.count === n ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}
+                  >
+                    {n}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* 解答状況 */}
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">解答状況</label>
+              <div className="flex flex-wrap gap-2">
+                {STATUS_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => update({ status: option.value })}
+                    className={`px-3 py-1.5 rounded-lg text-sm ${config.status === option.value ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* 回次の範囲 */}
+            {years.length > 0 && (
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">回次</label>
+                <div className="flex items-center gap-2 text-sm text-gray-700">
+                  第
+                  <select
+                    value={config.yearRange?.from ?? years[0]}
+                    onChange={e => {
+                      const from = Number(e.target.value);
+                      update({ yearRange: { from, to: Math.max(from, config.yearRange?.to ?? years[years.length - 1]) } });
+                    }}
+                    className="p-1 rounded border border-gray-300"
+                  >
+                    {years.map(y => <option key={y} value={y}>{y}</option>)}
+                  </select>
+                  回 〜 第
+                  <select
+                    value={config.yearRange?.to ?? years[years.length - 1]}
+                    onChange={e => {
+                      const to = Number(e.target.value);
+                      update({ yearRange: { from: Math.min(to, config.yearRange?.from ?? years[0]), to } });
+                    }}
+                    className="p-1 rounded border border-gray-300"
+                  >
+                    {years.map(y => <option key={y} value={y}>{y}</option>)}
+                  </select>
+                  回
+                  {config.yearRange && (
+                    <button onClick={() => update({ yearRange: null })} className="text-xs text-gray-400 ml-auto">
+                      すべて
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-6">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={config.hisshuOnly} onChange={e => update({ hisshuOnly: e.target.checked })} />
+                必修のみ
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={config.figureOnly} onChange={e => update({ figureOnly: e.target.checked })} />
+                図のある問題のみ
+              </label>
+            </div>
+
+            {/* 科目と比重 */}
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">科目と比重</label>
+              <p className="text-xs text-gray-400 mb-2">指定しなければすべての科目から出題します</p>
+              {subjectCategories.map(category => (
+                <div key={category.name} className="mb-2">
+                  <p className="text-xs text-gray-500 mb-1">{category.name}</p>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                    {category.subjects.map(subject => (
+                      <label key={subject.id} className="flex items-center justify-between text-sm text-gray-700">
+                        <span className="flex items-center gap-1.5">
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: subject.color }} />
+                          {subject.displayName}
+                        </span>
+                        <select
+                          value={config.subjectWeights[subject.name] || 0}
+                          onChange={e => setSubjectWeight(subject.name, Number(e.target.value))}
+                          className="p-0.5 rounded border border-gray-300 text-xs"
+                        >
+                          <option value={0}>-</option>
+                          {WEIGHT_OPTIONS.map(w => <option key={w} value={w}>×{w}</option>)}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* プリセットとして保存 */}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={e => setPresetName(e.target.value)}
+                placeholder="プリセット名（例: 毎週の50問ドリル）"
+                className="flex-1 p-2 rounded-lg border border-gray-300 text-sm focus:outline-none focus:border-primary"
+              />
+              <button
+                onClick={handleSavePreset}
+                disabled={!presetName.trim()}
+                className={`px-4 rounded-lg text-sm font-medium ${presetName.trim() ? 'bg-gray-800 text-white' : 'bg-gray-200 text-gray-400'}`}
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        )}
+      </main>
+
+      <footer className="bg-white border-t border-gray-200 p-4">
+        <p className="text-xs text-gray-500 text-center mb-2">
+          {questions
+            ? `条件に合う問題 ${matchingCount}問${matchingCount < config.count ? `（${matchingCount}問で作成）` : ''}`
+            : '読み込み中...'}
+        </p>
+        <button
+          onClick={handleStart}
+          disabled={matchingCount === 0}
+          className={`w-full py-4 rounded-xl font-bold text-lg transition-all ${
+            matchingCount > 0 ? 'bg-primary text-white active:bg-blue-700' : 'bg-gray-200 text-gray-400'
+          }`}
+        >
+          {Math.min(config.count, matchingCount)}問で始める
+        </button>
+      </footer>
+    </div>
+  );
+}
@@ -2,8 +2,17 @@
 
 import { useProgressStore } from '../store/useProgressStore';
 
+// 表示する過去のストリークの数
+const PAST_STREAKS_SHOWN = 3;
+
 export function StreakBadge() {
-  const { currentStreak, longestStreak } = useProgressStore();
+  const { currentStreak, longestStreak, lastStudyDate, streakFreezes, getStreakHistory } = useProgressStore();
+
+  // 今続いているものを除いた過去のストリーク（2日以上）
+  const pastStreaks = getStreakHistory()
+    .filter(run => !(currentStreak > 0 && run.end === lastStudyDate))
+    .filter(run => run.days >= 2)
+    .slice(0, PAST_STREAKS_SHOWN);
 
   return (
     <div className="flex items-center gap-2 bg-orange-50 px-3 py-1.5 rounded-full border border-orange-200">
@@ -21,6 +30,23 @@ export function StreakBadge() {
           最高記録!
         </span>
       )}
+      {streakFreezes > 0 && (
+        <span
+          className="text-xs bg-blue-100 text-blue-600 px-1.5 py-0.5 rounded ml-1"
+          title="学習できなかった日を1日分カバーします（1日の目標達成で獲得）"
+        >
+          ❄ {streakFreezes}
+        </span>
+      )}
+      {pastStreaks.length > 0 && (
+        <div
+          className="flex flex-col ml-1 text-xs text-orange-400 leading-tight"
+          title={pastStreaks.map(run => `${run.start}〜${run.end}: ${run.days}日`).join('\n')}
+        >
+          <span>過去</span>
+          <span>{pastStreaks.map(run => `${run.days}日`).join(' / ')}</span>
+        </div>
+      )}
     </div>
   );
 }
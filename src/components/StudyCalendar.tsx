@@ -0,0 +1,164 @@
+// 学習カレンダー（GitHub風のヒートマップ）- 日付をタップするとその日に解いた問題を表示
+
+import { useState } from 'react';
+import type { Question } from '../types/question';
+import { useProgressStore, type DailyActivity } from '../store/useProgressStore';
+import { addDays, getToday, getWeekday, toStudyDate } from '../services/studyDate';
+
+interface Props {
+  // 問題文の表示用（なければ問題IDのみ）
+  questionsById?: Map<string, Question>;
+}
+
+// 表示する週数
+const WEEKS = 17;
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+// 1日の区切りとして選べる時刻
+const DAY_START_HOURS = [0, 1, 2, 3, 4, 5, 6];
+
+// 目標に対する達成度で色の濃さを決める
+const LEVEL_CLASSES = ['bg-gray-100', 'bg-green-200', 'bg-green-300', 'bg-green-500', 'bg-green-700'];
+
+function getLevel(answered: number, dailyGoal: number): number {
+  if (answered === 0) return 0;
+  const ratio = answered / Math.max(1, dailyGoal);
+  if (ratio < 0.25) return 1;
+  if (ratio < 0.5) return 2;
+  if (ratio < 1) return 3;
+  return 4;
+}
+
+// 今週の土曜日を最後の列にして、WEEKS 週分の日付を並べる（列 = 週、行 = 曜日）
+function buildWeeks(today: string): string[][] {
+  const end = addDays(today, 6 - getWeekday(today));
+  const weeks: string[][] = [];
+  for (let w = WEEKS - 1; w >= 0; w--) {
+    const week: string[] = [];
+    for (let d = 6; d >= 0; d--) {
+      week.push(addDays(end, -(w * 7 + d)));
+    }
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+export function StudyCalendar({ questionsById }: Props) {
+  const { dailyHistory, dailyGoal, attempts, frozenDates, dayStartHour, setDayStartHour } = useProgressStore();
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const today = getToday();
+  const weeks = buildWeeks(today);
+  const selectedDay: DailyActivity | undefined = selectedDate ? dailyHistory[selectedDate] : undefined;
+  const studiedDays = weeks.flat().filter(date => dailyHistory[date]?.answered > 0).length;
+
+  // その日の問題ごとの最後の結果
+  const resultsOfDay = new Map<string, boolean>();
+  if (selectedDate) {
+    for (const a of attempts) {
+      if (toStudyDate(a.timestamp) === selectedDate) {
+        resultsOfDay.set(a.questionId, a.isCorrect);
+      }
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex gap-1">
+        {/* 曜日 */}
+        <div className="flex flex-col gap-[3px] mr-1">
+          {WEEKDAY_LABELS.map((label, i) => (
+            <span key={label} className="h-3 text-[9px] leading-3 text-gray-400">
+              {i % 2 === 1 ? label : ''}
+            </span>
+          ))}
+        </div>
+        {weeks.map(week => (
+          <div key={week[0]} className="flex flex-col gap-[3px]">
+            {week.map(date => {
+              const day = dailyHistory[date];
+              const isFuture = date > today;
+              const isFrozen = !day && frozenDates.includes(date);
+              return (
+                <button
+                  key={date}
+                  onClick={() => setSelectedDate(date === selectedDate ? null : date)}
+                  disabled={isFuture}
+                  title={isFrozen ? `${date}: ストリークフリーズ` : `${date}: ${day?.answered || 0}問`}
+                  className={`w-3 h-3 rounded-sm ${
+                    isFuture ? 'bg-transparent' : isFrozen ? 'bg-blue-200' : LEVEL_CLASSES[getLevel(day?.answered || 0, dailyGoal)]
+                  } ${date === selectedDate ? 'ring-2 ring-primary ring-offset-1' : ''}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
+        <span>{WEEKS}週間で {studiedDays}日 学習</span>
+        {/* 1日の区切り（深夜の学習を前日に数える） */}
+        <label className="flex items-center gap-1">
+          区切り
+          <select
+            value={dayStartHour}
+            onChange={e => setDayStartHour(Number(e.target.value))}
+            className="bg-transparent text-gray-500 focus:outline-none"
+          >
+            {DAY_START_HOURS.map(hour => (
+              <option key={hour} value={hour}>{hour}時</option>
+            ))}
+          </select>
+        </label>
+        <span className="flex items-center gap-1">
+          少
+          {LEVEL_CLASSES.map(cls => (
+            <span key={cls} className={`w-2.5 h-2.5 rounded-sm ${cls}`} />
+          ))}
+          多
+        </span>
+      </div>
+
+      {/* 選んだ日の詳細 */}
+      {selectedDate && (
+        <div className="mt-4 border-t border-gray-100 pt-3">
+          <p className="text-sm font-bold text-gray-700">{selectedDate}</p>
+          {!selectedDay || selectedDay.answered === 0 ? (
+            <p className="text-sm text-gray-500 mt-1">この日は学習していません</p>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500 mt-1">
+                {selectedDay.answered}問 / 正解 {selectedDay.correct}問
+                {selectedDay.minutes > 0 && ` / ${selectedDay.minutes}分`}
+              </p>
+              {selectedDay.subjects.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {selectedDay.subjects.map(subject => (
+                    <span key={subject} className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">
+                      {subject}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <ul className="mt-2 space-y-1">
+                {selectedDay.questionIds.map(id => {
+                  const isCorrect = resultsOfDay.get(id);
+                  const question = questionsById?.get(id);
+                  return (
+                    <li key={id} className="flex items-center gap-2 text-sm">
+                      <span className={isCorrect ? 'text-green-600' : 'text-red-600'}>
+                        {isCorrect ? '✓' : '✗'}
+                      </span>
+                      <span className="font-medium text-gray-700 flex-shrink-0">{id}</span>
+                      {question && (
+                        <span className="text-gray-500 truncate">{question.questionText}</span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,42 +1,197 @@
 // 学習モード - 考えなくていいUI
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { Question } from '../types/question';
-import { getAllQuestions } from '../services/questionService';
+import { getQuestionRepository } from '../services/questionRepository';
+import {
+  getAnswerKey,
+  gradeAnswer,
+  formatAnswer,
+  type AnswerResponse,
+  type ChoiceMark,
+  type GradeResult,
+} from '../services/grading';
 import { useProgressStore } from '../store/useProgressStore';
+import { useFolderStore } from '../store/useFolderStore';
+import { useQuizStore } from '../store/useQuizStore';
+import { useFlashcardStore } from '../store/useFlashcardStore';
+import {
+  createSelectionPolicy,
+  SELECTION_BUCKETS,
+  SELECTION_BUCKET_LABELS,
+  type SelectedQuestion,
+  type SelectionMix,
+  type SelectionPolicy,
+} from '../services/selectionPolicy';
+import { getChoiceLayout } from '../services/choiceOrder';
+import { buildSessionSummary, type SessionSummary } from '../services/sessionSummary';
+import { useStudySessionStore, type StudySession } from '../store/useStudySessionStore';
+import { MasteryBadge } from './MasteryBadge';
+import { ConfidencePicker } from './ConfidencePicker';
+import { QuestionTimer } from './QuestionTimer';
 
 interface Props {
   onExit: () => void;
+  // 問題セット（useQuizStore の activeQuiz）を出題順に解く
+  quiz?: boolean;
 }
 
-export function StudyMode({ onExit }: Props) {
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
+export function StudyMode({ onExit, quiz = false }: Props) {
+  const [questionsById, setQuestionsById] = useState<Map<string, Question> | null>(null);
   const [selectedChoices, setSelectedChoices] = useState<Set<string>>(new Set());
-  const [isAnswered, setIsAnswered] = useState(false);
-  const [isCorrect, setIsCorrect] = useState(false);
+  const [numericInput, setNumericInput] = useState('');
+  const [grade, setGrade] = useState<GradeResult | null>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
 
-  const { recordAnswer, todayAnswered, dailyGoal } = useProgressStore();
+  // 問題を表示した時刻と解答した時刻（解答時間の計測用）
+  const [questionShownAt, setQuestionShownAt] = useState(Date.now());
+  const [answeredAt, setAnsweredAt] = useState<number | null>(null);
+  // 出題方針と、出題した問題がどの枠から選ばれたか
+  const policy = useRef<SelectionPolicy | null>(null);
+  const bucketOf = useRef(new Map<string, SelectedQuestion['bucket']>());
 
-  // 問題をシャッフルして読み込み
-  useEffect(() => {
-    const allQuestions = getAllQuestions();
-    const shuffled = [...allQuestions].sort(() => Math.random() - 0.5);
-    setQuestions(shuffled);
+  const {
+    attempts, recordAnswer, getCorrectStreak, selectionMix, setSelectionMix, shuffleChoices, setShuffleChoices,
+  } = useProgressStore();
+  const { trackMistake } = useFolderStore();
+  const { activeQuiz, recordQuizResult, markQuizAnswered, advanceQuiz, startQuiz } = useQuizStore();
+  const {
+    session, sessionLength, setSessionLength, startSession, markAnswered, advanceSession, clearSession,
+  } = useStudySessionStore();
+
+  // 出題方針から次の問題を取り出してセッションに加える（なければセッションを終える）
+  const takeNext = useCallback(() => {
+    const selected = policy.current?.next();
+    if (!selected) {
+      useStudySessionStore.getState().finishSession();
+      return;
+    }
+    bucketOf.current.set(selected.question.id, selected.bucket);
+    useStudySessionStore.getState().addQuestion(selected.question.id);
   }, []);
 
-  const currentQuestion = questions[currentIndex];
+  // 問題を読み込み、問題セットまたはセッションを途中から再開する
+  const loadQuestions = useCallback(() => {
+    setLoadError(null);
+    getQuestionRepository().list()
+      .then(allQuestions => {
+        policy.current = null;
+        bucketOf.current.clear();
+
+        if (quiz) {
+          // 解答したあと次に進まずに閉じた問題は飛ばす
+          const quizState = useQuizStore.getState().activeQuiz;
+          const currentId = quizState?.questionIds[quizState.currentIndex];
+          if (quizState && currentId !== undefined && quizState.answered.includes(currentId)) {
+            useQuizStore.getState().advanceQuiz();
+          }
+          setQuestionsById(new Map(allQuestions.map(q => [q.id, q])));
+          return;
+        }
+
+        const sessions = useStudySessionStore.getState();
+        if (!sessions.session) sessions.startSession('adaptive');
+        let current = useStudySessionStore.getState().session as StudySession;
+        const currentId = current.questionIds[current.currentIndex];
+        if (currentId !== undefined && current.answered.includes(currentId)) {
+          sessions.advanceSession();
+          current = useStudySessionStore.getState().session as StudySession;
+        }
+
+        if (current.kind === 'adaptive') {
+          const progress = useProgressStore.getState();
+          policy.current = createSelectionPolicy(
+            allQuestions,
+            {
+              attempts: progress.attempts,
+              answeredIds: progress.answeredQuestions,
+              dueIds: new Set(useFlashcardStore.getState().getDueQueue().map(c => c.questionId)),
+            },
+            progress.selectionMix,
+            current.seed,
+            current.questionIds
+          );
+          if (!current.finishedAt && current.currentIndex >= current.questionIds.length) {
+            takeNext();
+          }
+        }
+        setQuestionsById(new Map(allQuestions.map(q => [q.id, q])));
+      })
+      .catch(error => setLoadError(error instanceof Error ? error.message : String(error)));
+  }, [quiz, takeNext]);
+
+  useEffect(() => {
+    loadQuestions();
+  }, [loadQuestions]);
+
+  // 出題順・位置・問題数（問題セットとセッションで共通に扱う）
+  const questionIds = (quiz ? activeQuiz?.questionIds : session?.questionIds) || [];
+  const currentIndex = (quiz ? activeQuiz?.currentIndex : session?.currentIndex) ?? 0;
+  const total = (quiz ? activeQuiz?.questionIds.length : session?.length) ?? 0;
+  // 選択肢の並び替えには問題セット・セッションのシードを使う（同じセッション中は同じ並び）
+  const seed = (quiz ? activeQuiz?.seed : session?.seed) ?? null;
+  const isFinished = quiz
+    ? !activeQuiz || activeQuiz.currentIndex >= activeQuiz.questionIds.length
+    : !!session?.finishedAt;
+  const currentQuestion = questionsById?.get(questionIds[currentIndex]);
+
+  // 問題が変わったら計測をやり直す
+  useEffect(() => {
+    setQuestionShownAt(Date.now());
+    setAnsweredAt(null);
+  }, [currentQuestion?.id]);
 
   // 次の問題へ
   const goToNext = useCallback(() => {
     setSelectedChoices(new Set());
-    setIsAnswered(false);
-    setIsCorrect(false);
-    setCurrentIndex(prev => prev + 1);
-  }, []);
+    setNumericInput('');
+    setGrade(null);
+    if (quiz) {
+      advanceQuiz();
+      return;
+    }
+    advanceSession();
+    const next = useStudySessionStore.getState().session;
+    if (next && !next.finishedAt && next.kind === 'adaptive' && next.currentIndex >= next.questionIds.length) {
+      takeNext();
+    }
+  }, [quiz, advanceQuiz, advanceSession, takeNext]);
+
+  // 出題の割合を変更（次の問題から反映）
+  const handleMixChange = (mix: SelectionMix) => {
+    setSelectionMix(mix);
+    policy.current?.setMix(mix);
+  };
+
+  // 間違えた問題だけ解き直す
+  const handleRetry = (missedIds: string[]) => {
+    if (quiz && activeQuiz) {
+      startQuiz(missedIds, activeQuiz.config, `${activeQuiz.name || '問題セット'}の解き直し`);
+    } else {
+      startSession('retry', missedIds);
+    }
+    loadQuestions();
+  };
+
+  // 次のセッションを始める
+  const handleNextSession = () => {
+    clearSession();
+    loadQuestions();
+  };
+
+  // セッションを終えて戻る
+  const handleClose = () => {
+    if (!quiz) clearSession();
+    onExit();
+  };
+
+  const isAnswered = grade !== null;
+  const answerKey = currentQuestion ? getAnswerKey(currentQuestion) : null;
+  const canSubmit = answerKey?.kind === 'numeric' ? numericInput.trim() !== '' : selectedChoices.size > 0;
 
-  // 選択肢をタップ
+  // 選択肢をタップ（Setは追加順を保つので、並び替え問題ではタップした順が解答になる）
   const handleChoiceClick = (key: string) => {
     if (isAnswered) return;
 
@@ -45,7 +200,7 @@ export function StudyMode({ onExit }: Props) {
       if (next.has(key)) {
         next.delete(key);
       } else {
-        if (currentQuestion.choiceCount === 1) {
+        if (answerKey?.kind === 'single') {
           next.clear();
         }
         next.add(key);
@@ -56,29 +211,45 @@ export function StudyMode({ onExit }: Props) {
 
   // 解答を確定
   const handleSubmit = () => {
-    if (selectedChoices.size === 0 || isAnswered || !currentQuestion) return;
+    if (!canSubmit || isAnswered || !currentQuestion) return;
 
-    const correctAnswers = currentQuestion.answer.toLowerCase().split('').filter(c => /[a-e]/.test(c));
-    const selectedArray = [...selectedChoices].sort();
-    const correct =
-      correctAnswers.length === selectedArray.length &&
-      correctAnswers.every(c => selectedChoices.has(c));
+    const response: AnswerResponse = answerKey?.kind === 'numeric'
+      ? { kind: 'numeric', value: numericInput }
+      : { kind: 'choices', choices: [...selectedChoices] };
+    const result = gradeAnswer(currentQuestion, response);
+    const now = Date.now();
 
-    recordAnswer(currentQuestion.id, correct);
-    setIsCorrect(correct);
-    setIsAnswered(true);
+    if (result.counted) {
+      recordAnswer({
+        questionId: currentQuestion.id,
+        response,
+        isCorrect: result.isCorrect,
+        timeSpentMs: now - questionShownAt,
+        source: 'study',
+        subject: currentQuestion.category,
+      });
+      trackMistake(currentQuestion.id, getCorrectStreak(currentQuestion.id));
+      if (quiz) recordQuizResult(currentQuestion.id, result.isCorrect);
+    }
+    if (quiz) {
+      markQuizAnswered(currentQuestion.id);
+    } else {
+      markAnswered(currentQuestion.id);
+    }
+    setAnsweredAt(now);
+    setGrade(result);
   };
 
   // 選択肢のスタイル
   const getChoiceStyle = (key: string) => {
     const isSelected = selectedChoices.has(key);
-    const isCorrectAnswer = currentQuestion?.answer.toLowerCase().includes(key);
 
-    if (isAnswered) {
-      if (isCorrectAnswer) {
+    if (grade) {
+      const mark: ChoiceMark = grade.choiceMarks[key] || 'neutral';
+      if (mark === 'correct' || (mark === 'missed' && answerKey?.kind !== 'ordering')) {
         return 'border-green-500 bg-green-50';
       }
-      if (isSelected && !isCorrectAnswer) {
+      if (mark === 'wrong') {
         return 'border-red-500 bg-red-50';
       }
       return 'border-gray-200 bg-gray-50';
@@ -90,6 +261,54 @@ export function StudyMode({ onExit }: Props) {
     return 'border-gray-200 bg-white active:bg-gray-100';
   };
 
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+        <div className="text-center px-6">
+          <p className="text-xl text-gray-600">問題を読み込めませんでした</p>
+          <p className="text-sm text-gray-500 mt-2">{loadError}</p>
+          <div className="flex gap-3 justify-center mt-6">
+            <button onClick={onExit} className="px-5 py-2 rounded-xl bg-gray-200 text-gray-700 font-medium">
+              戻る
+            </button>
+            <button onClick={loadQuestions} className="px-5 py-2 rounded-xl bg-primary text-white font-medium">
+              再読み込み
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // 問題セット・セッションを解き終えた
+  if (questionsById && isFinished) {
+    if (questionIds.length === 0) {
+      return (
+        <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+          <div className="text-center px-6">
+            <p className="text-xl text-gray-600">出題できる問題がありません</p>
+            <button onClick={handleClose} className="mt-6 px-5 py-2 rounded-xl bg-gray-200 text-gray-700 font-medium">
+              戻る
+            </button>
+          </div>
+        </div>
+      );
+    }
+    return (
+      <SessionSummaryScreen
+        title={quiz ? `${activeQuiz?.name || '問題セット'}を解き終えました` : 'セッション終了'}
+        summary={buildSessionSummary(
+          attempts,
+          questionIds,
+          (quiz ? activeQuiz?.startedAt : session?.startedAt) ?? 0
+        )}
+        onRetry={handleRetry}
+        onNext={quiz ? undefined : handleNextSession}
+        onClose={handleClose}
+      />
+    );
+  }
+
   if (!currentQuestion) {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
@@ -100,11 +319,9 @@ export function StudyMode({ onExit }: Props) {
     );
   }
 
-  const sortedChoices = Object.entries(currentQuestion.choices).sort(
-    ([a], [b]) => a.localeCompare(b)
-  );
+  const choiceLayout = getChoiceLayout(currentQuestion, shuffleChoices ? seed : null);
 
-  const progressPercent = Math.min((todayAnswered / dailyGoal) * 100, 100);
+  const progressPercent = total > 0 ? (currentIndex / total) * 100 : 0;
 
   return (
     <div className="min-h-screen bg-gray-100 flex flex-col">
@@ -116,11 +333,27 @@ export function StudyMode({ onExit }: Props) {
         >
           ✕ 終了
         </button>
-        <span className="text-sm text-gray-500">
+        <span className="text-sm text-gray-500 flex items-center gap-2">
           {currentQuestion.id}
+          {!quiz && (
+            <button
+              onClick={() => setShowSettings(true)}
+              className="text-xs bg-gray-100 text-gray-500 px-2 py-0.5 rounded"
+              title="出題の設定"
+            >
+              {(() => {
+                if (session?.kind === 'retry') return '解き直し';
+                const bucket = bucketOf.current.get(currentQuestion.id);
+                return bucket && bucket !== 'rest' ? SELECTION_BUCKET_LABELS[bucket] : 'おまかせ';
+              })()} ⚙
+            </button>
+          )}
         </span>
-        <span className="text-sm font-medium text-primary">
-          {todayAnswered} / {dailyGoal}
+        <span className="flex items-center gap-3">
+          <QuestionTimer startedAt={questionShownAt} stoppedAt={answeredAt} />
+          <span className="text-sm font-medium text-primary">
+            {currentIndex + 1} / {total}
+          </span>
         </span>
       </header>
 
@@ -158,45 +391,85 @@ export function StudyMode({ onExit }: Props) {
           </div>
         )}
 
-        {/* 選択肢 */}
-        <div className="space-y-3">
-          {currentQuestion.choiceCount > 1 && !isAnswered && (
-            <p className="text-sm text-gray-500 text-center">
-              {currentQuestion.choiceCount}つ選んでください
-            </p>
-          )}
-          {sortedChoices.map(([key, value]) => {
-            const isCorrectAnswer = currentQuestion.answer.toLowerCase().includes(key);
-            const isSelected = selectedChoices.has(key);
-            return (
-              <button
-                key={key}
-                onClick={() => handleChoiceClick(key)}
-                disabled={isAnswered}
-                className={`w-full p-4 rounded-xl border-2 text-left transition-all ${getChoiceStyle(key)}`}
-              >
-                <span className="font-bold mr-2 text-gray-500">{key.toUpperCase()}.</span>
-                <span className="text-gray-800">{value}</span>
-                {isAnswered && isCorrectAnswer && (
-                  <span className="float-right text-green-600 font-bold">✓</span>
-                )}
-                {isAnswered && isSelected && !isCorrectAnswer && (
-                  <span className="float-right text-red-600 font-bold">✗</span>
-                )}
-              </button>
-            );
-          })}
-        </div>
+        {/* 選択肢（計算問題は数値入力） */}
+        {answerKey?.kind === 'numeric' ? (
+          <div className="bg-white rounded-xl p-4 shadow-sm">
+            <label className="block text-sm text-gray-500 mb-2">答えを数値で入力してください</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={numericInput}
+              onChange={e => setNumericInput(e.target.value)}
+              disabled={isAnswered}
+              className={`w-full p-3 rounded-lg border-2 text-lg focus:outline-none ${
+                grade ? (grade.isCorrect ? 'border-green-500 bg-green-50' : 'border-red-500 bg-red-50') : 'border-gray-200 focus:border-primary'
+              }`}
+            />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {!isAnswered && answerKey?.kind === 'ordering' && (
+              <p className="text-sm text-gray-500 text-center">
+                正しい順にタップしてください
+              </p>
+            )}
+            {!isAnswered && answerKey?.kind === 'multi' && (
+              <p className="text-sm text-gray-500 text-center">
+                {currentQuestion.choiceCount}つ選んでください
+              </p>
+            )}
+            {choiceLayout.order.map(key => {
+              const mark = grade?.choiceMarks[key];
+              const orderIndex = [...selectedChoices].indexOf(key);
+              return (
+                <button
+                  key={key}
+                  onClick={() => handleChoiceClick(key)}
+                  disabled={isAnswered}
+                  className={`w-full p-4 rounded-xl border-2 text-left transition-all ${getChoiceStyle(key)}`}
+                >
+                  {answerKey?.kind === 'ordering' && orderIndex !== -1 && (
+                    <span className="inline-block w-6 h-6 mr-2 rounded-full bg-primary text-white text-sm text-center leading-6">
+                      {orderIndex + 1}
+                    </span>
+                  )}
+                  <span className="font-bold mr-2 text-gray-500">{choiceLayout.labels[key]}.</span>
+                  <span className="text-gray-800">{currentQuestion.choices[key]}</span>
+                  {(mark === 'correct' || (mark === 'missed' && answerKey?.kind !== 'ordering')) && (
+                    <span className="float-right text-green-600 font-bold">✓</span>
+                  )}
+                  {mark === 'wrong' && (
+                    <span className="float-right text-red-600 font-bold">✗</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
 
         {/* 正解表示 */}
-        {isAnswered && (
-          <div className={`mt-4 p-4 rounded-xl ${isCorrect ? 'bg-green-100' : 'bg-red-100'}`}>
-            <p className={`font-bold ${isCorrect ? 'text-green-700' : 'text-red-700'}`}>
-              {isCorrect ? '🎉 正解！' : '😢 不正解...'}
-            </p>
-            <p className="text-sm text-gray-600 mt-1">
-              正答: <span className="font-bold">{currentQuestion.answer}</span>
+        {grade && (
+          <div className={`mt-4 p-4 rounded-xl ${
+            grade.status === 'excluded' ? 'bg-gray-200' : grade.isCorrect ? 'bg-green-100' : 'bg-red-100'
+          }`}>
+            <p className={`font-bold ${
+              grade.status === 'excluded' ? 'text-gray-700' : grade.isCorrect ? 'text-green-700' : 'text-red-700'
+            }`}>
+              {grade.status === 'excluded' ? 'この問題は採点除外です' : grade.isCorrect ? '🎉 正解！' : '😢 不正解...'}
             </p>
+            {grade.status !== 'excluded' && (
+              <p className="text-sm text-gray-600 mt-1">
+                正答: <span className="font-bold">{formatAnswer(currentQuestion, choiceLayout.labels)}</span>
+              </p>
+            )}
+            {grade.counted && (
+              <div className="mt-3">
+                <ConfidencePicker questionId={currentQuestion.id} />
+              </div>
+            )}
+            <div className="mt-2">
+              <MasteryBadge questionId={currentQuestion.id} />
+            </div>
           </div>
         )}
       </main>
@@ -206,9 +479,9 @@ export function StudyMode({ onExit }: Props) {
         {!isAnswered ? (
           <button
             onClick={handleSubmit}
-            disabled={selectedChoices.size === 0}
+            disabled={!canSubmit}
             className={`w-full py-4 rounded-xl font-bold text-lg transition-all ${
-              selectedChoices.size > 0
+              canSubmit
                 ? 'bg-primary text-white active:bg-blue-700'
                 : 'bg-gray-200 text-gray-400'
             }`}
@@ -225,6 +498,18 @@ export function StudyMode({ onExit }: Props) {
         )}
       </footer>
 
+      {showSettings && (
+        <StudySettingsModal
+          mix={selectionMix}
+          onMixChange={handleMixChange}
+          sessionLength={sessionLength}
+          onSessionLengthChange={setSessionLength}
+          shuffleChoices={shuffleChoices}
+          onShuffleChoicesChange={setShuffleChoices}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       {/* 画像拡大モーダル */}
       {selectedImage && (
         <div
@@ -247,3 +532,169 @@ export function StudyMode({ onExit }: Props) {
     </div>
   );
 }
+
+// 1セッションの問題数として選べる数
+const SESSION_LENGTH_OPTIONS = [10, 20, 30, 50];
+
+// 出題の設定（割合は次の問題から、問題数は次のセッションから反映）
+function StudySettingsModal({
+  mix, onMixChange, sessionLength, onSessionLengthChange, shuffleChoices, onShuffleChoicesChange, onClose,
+}: {
+  mix: SelectionMix;
+  onMixChange: (mix: SelectionMix) => void;
+  sessionLength: number;
+  onSessionLengthChange: (length: number) => void;
+  shuffleChoices: boolean;
+  onShuffleChoicesChange: (shuffle: boolean) => void;
+  onClose: () => void;
+}) {
+  const total = SELECTION_BUCKETS.reduce((sum, b) => sum + mix[b], 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl p-6 w-full max-w-sm" onClick={e => e.stopPropagation()}>
+        <h2 className="text-lg font-bold text-gray-800 mb-4">出題の設定</h2>
+
+        <label className="block text-sm text-gray-600 mb-1">1セッションの問題数</label>
+        <div className="flex gap-2 mb-1">
+          {SESSION_LENGTH_OPTIONS.map(n => (
+            <button
+              key={n}
+              onClick={() => onSessionLengthChange(n)}
+              className={`flex-1 py-1.5 rounded-lg text-sm ${sessionLength === n ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700'}`}
+            >
+              {n}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mb-4">次のセッションから反映されます</p>
+
+        <label className="flex items-center justify-between text-sm text-gray-600 mb-1">
+          <span>選択肢の順番を入れ替える</span>
+          <input
+            type="checkbox"
+            checked={shuffleChoices}
+            onChange={e => onShuffleChoicesChange(e.target.checked)}
+          />
+        </label>
+        <p className="text-xs text-gray-400 mb-4">記号（A〜E）も表示順に振り直します</p>
+
+        <label className="block text-sm text-gray-600 mb-1">出題の割合</label>
+        <p className="text-xs text-gray-400 mb-3">次の問題から反映されます。枠が空のときは他の枠から出題します</p>
+        <div className="space-y-3">
+          {SELECTION_BUCKETS.map(bucket => (
+            <label key={bucket} className="block">
+              <div className="flex justify-between text-sm text-gray-700">
+                <span>{SELECTION_BUCKET_LABELS[bucket]}</span>
+                <span className="text-gray-500">{total > 0 ? Math.round((mix[bucket] / total) * 100) : 0}%</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={mix[bucket]}
+                onChange={e => onMixChange({ ...mix, [bucket]: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+          ))}
+        </div>
+        <button onClick={onClose} className="w-full mt-6 py-2 rounded-xl bg-primary text-white font-medium">
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// 1問あたりの時間の表示（1分23秒）
+function formatSeconds(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}分${seconds % 60}秒` : `${seconds}秒`;
+}
+
+// セッションの振り返り
+function SessionSummaryScreen({ title, summary, onRetry, onNext, onClose }: {
+  title: string;
+  summary: SessionSummary;
+  onRetry: (missedIds: string[]) => void;
+  onNext?: () => void;
+  onClose: () => void;
+}) {
+  const accuracyPercent = summary.accuracy !== null ? Math.round(summary.accuracy * 100) : null;
+  // 勘で当たった問題も解き直しに含める
+  const retryIds = [...summary.missedIds, ...summary.guessedIds];
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex flex-col">
+      <main className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className="text-center pt-8 pb-2">
+          <div className="text-5xl mb-3">🎉</div>
+          <p className="text-xl font-bold text-gray-800">{title}</p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="bg-white rounded-xl p-3 text-center shadow-sm">
+            <p className="text-2xl font-bold text-gray-800">{accuracyPercent !== null ? `${accuracyPercent}%` : '-'}</p>
+            <p className="text-xs text-gray-500">正答率</p>
+          </div>
+          <div className="bg-white rounded-xl p-3 text-center shadow-sm">
+            <p className="text-2xl font-bold text-gray-800">{summary.correct}/{summary.answered}</p>
+            <p className="text-xs text-gray-500">
+              正解{summary.guessedIds.length > 0 && `（うち勘 ${summary.guessedIds.length}）`}
+            </p>
+          </div>
+          <div className="bg-white rounded-xl p-3 text-center shadow-sm">
+            <p className="text-2xl font-bold text-gray-800">
+              {summary.averageTimeMs !== null ? formatSeconds(summary.averageTimeMs) : '-'}
+            </p>
+            <p className="text-xs text-gray-500">1問あたり</p>
+          </div>
+        </div>
+
+        {summary.bySubject.length > 0 && (
+          <div className="bg-white rounded-xl p-4 shadow-sm">
+            <p className="font-bold text-gray-800 mb-3">科目別</p>
+            <div className="space-y-2">
+              {summary.bySubject.map(s => (
+                <div key={s.label}>
+                  <div className="flex justify-between text-sm text-gray-700">
+                    <span>{s.label}</span>
+                    <span className="text-gray-500">{s.correct} / {s.answered}</span>
+                  </div>
+                  <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mt-1">
+                    <div className="h-full bg-green-500 rounded-full" style={{ width: `${(s.correct / s.answered) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+
+      <footer className="bg-white border-t border-gray-200 p-4 space-y-2">
+        {retryIds.length > 0 && (
+          <button
+            onClick={() => onRetry(retryIds)}
+            className="w-full py-3 rounded-xl font-bold bg-orange-500 text-white active:bg-orange-600"
+          >
+            {summary.guessedIds.length > 0
+              ? `間違えた・勘で当たった${retryIds.length}問を解き直す`
+              : `間違えた${retryIds.length}問だけ解き直す`}
+          </button>
+        )}
+        <div className="flex gap-2">
+          <button onClick={onClose} className="flex-1 py-3 rounded-xl font-bold bg-gray-200 text-gray-700">
+            終了
+          </button>
+          {onNext && (
+            <button onClick={onNext} className="flex-1 py-3 rounded-xl font-bold bg-primary text-white active:bg-blue-700">
+              次のセッション
+            </button>
+          )}
+        </div>
+      </footer>
+    </div>
+  );
+}
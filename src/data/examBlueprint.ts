@@ -0,0 +1,77 @@
+// 歯科医師国家試験の出題構成（回次ごと）
+// 新しい回次を追加するときはここに1件足すだけでよい（必修判定・セッション一覧・問題番号の解釈はすべてここから導く）
+
+export interface SessionBlueprint {
+  name: string;          // セッション名（A, B, C, D）
+  questionCount: number; // 問題数
+  hisshu: { from: number; to: number } | null; // 必修問題の番号範囲（なければ null）
+}
+
+export interface PassThresholds {
+  hisshu: number;  // 必修問題の合格基準（正答率、絶対評価）
+  general: number; // 一般問題の合格基準の目安（正答率、実際は回ごとの相対評価）
+}
+
+export interface ExamBlueprint {
+  year: number;      // 回次
+  examDate: string;  // 試験日（1日目、YYYY-MM-DD）
+  sessions: SessionBlueprint[];
+  passThresholds: PassThresholds;
+}
+
+// 必修は正答率80%以上（絶対評価）
+const DEFAULT_PASS_THRESHOLDS: PassThresholds = { hisshu: 0.8, general: 0.65 };
+
+// セッション定義の簡略記法
+// counts: セッションごとの問題数、hisshu: 必修のあるセッションとその最終番号
+function sessions(counts: Record<string, number>, hisshu: { sessions: string[]; to: number }): SessionBlueprint[] {
+  return Object.entries(counts).map(([name, questionCount]) => ({
+    name,
+    questionCount,
+    hisshu: hisshu.sessions.includes(name) ? { from: 1, to: hisshu.to } : null,
+  }));
+}
+
+// 必修問題の範囲
+// 102回: A1〜25, B1〜25（計50問）
+// 103〜110回: A1〜35, B1〜35（計70問）
+// 111〜113回: A1〜40, B1〜40（計80問）
+// 114回〜: A〜D の各1〜20（計80問）
+export const examBlueprints: ExamBlueprint[] = [
+  { year: 102, examDate: '2009-02-07', sessions: sessions({ A: 130, B: 130, C: 52, D: 53 }, { sessions: ['A', 'B'], to: 25 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 103, examDate: '2010-02-06', sessions: sessions({ A: 130, B: 52, C: 130, D: 53 }, { sessions: ['A', 'B'], to: 35 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 104, examDate: '2011-02-05', sessions: sessions({ A: 130, B: 52, C: 130, D: 53 }, { sessions: ['A', 'B'], to: 35 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 105, examDate: '2012-02-04', sessions: sessions({ A: 130, B: 53, C: 130, D: 52 }, { sessions: ['A', 'B'], to: 35 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 106, examDate: '2013-02-02', sessions: sessions({ A: 130, B: 52, C: 130, D: 53 }, { sessions: ['A', 'B'], to: 35 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 107, examDate: '2014-02-01', sessions: sessions({ A: 130, B: 52, C: 130, D: 53 }, { sessions: ['A', 'B'], to: 35 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 108, examDate: '2015-02-07', sessions: sessions({ A: 130, B: 52, C: 130, D: 53 }, { sessions: ['A', 'B'], to: 35 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 109, examDate: '2016-02-06', sessions: sessions({ A: 130, B: 52, C: 130, D: 53 }, { sessions: ['A', 'B'], to: 35 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 110, examDate: '2017-02-04', sessions: sessions({ A: 130, B: 52, C: 130, D: 53 }, { sessions: ['A', 'B'], to: 35 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 111, examDate: '2018-02-03', sessions: sessions({ A: 90, B: 90, C: 90, D: 90 }, { sessions: ['A', 'B'], to: 40 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 112, examDate: '2019-02-02', sessions: sessions({ A: 90, B: 90, C: 90, D: 90 }, { sessions: ['A', 'B'], to: 40 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 113, examDate: '2020-02-01', sessions: sessions({ A: 90, B: 90, C: 90, D: 90 }, { sessions: ['A', 'B'], to: 40 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 114, examDate: '2021-01-30', sessions: sessions({ A: 90, B: 90, C: 90, D: 90 }, { sessions: ['A', 'B', 'C', 'D'], to: 20 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 115, examDate: '2022-01-29', sessions: sessions({ A: 90, B: 90, C: 90, D: 90 }, { sessions: ['A', 'B', 'C', 'D'], to: 20 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 116, examDate: '2023-01-28', sessions: sessions({ A: 90, B: 90, C: 90, D: 90 }, { sessions: ['A', 'B', 'C', 'D'], to: 20 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 117, examDate: '2024-01-27', sessions: sessions({ A: 90, B: 90, C: 90, D: 90 }, { sessions: ['A', 'B', 'C', 'D'], to: 20 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+  { year: 118, examDate: '2025-02-01', sessions: sessions({ A: 90, B: 90, C: 90, D: 90 }, { sessions: ['A', 'B', 'C', 'D'], to: 20 }), passThresholds: DEFAULT_PASS_THRESHOLDS },
+];
+
+// 回次から出題構成を取得
+export function getExamBlueprint(year: number): ExamBlueprint | undefined {
+  return examBlueprints.find(b => b.year === year);
+}
+
+// 出題構成が定義されている回次（昇順）
+export function getBlueprintYears(): number[] {
+  return examBlueprints.map(b => b.year).sort((a, b) => a - b);
+}
+
+// セッション名の一覧（回次を指定しなければ全回次の和集合）
+export function getSessionNames(years: number[] = []): string[] {
+  const targets = years.length > 0
+    ? examBlueprints.filter(b => years.includes(b.year))
+    : examBlueprints;
+  const names = new Set(targets.flatMap(b => b.sessions.map(s => s.name)));
+  return [...names].sort();
+}
@@ -0,0 +1,81 @@
+// 検索用の同義語・略語辞書
+// 学生がよく使う略語・俗称から、問題文で使われる正式な用語に展開する
+// 科目の表示名（フルデン、クラブリなど）は subjects.ts から自動で追加する
+
+import { getAllSubjects } from './subjects';
+import { normalizeText } from '../services/textNormalizer';
+
+// 略語 → 正式な用語（一方向の展開）
+const bundledSynonyms: Record<string, string[]> = {
+  // 補綴
+  'フルデン': ['全部床義歯', '総義歯'],
+  '総義歯': ['全部床義歯'],
+  'パーシャル': ['部分床義歯'],
+  'デンチャー': ['義歯'],
+  'クラブリ': ['クラウンブリッジ', '冠橋義歯'],
+  'インプラ': ['インプラント'],
+
+  // 歯周・保存
+  'GTR': ['組織再生誘導法'],
+  'GBR': ['骨再生誘導法'],
+  'EMD': ['エナメルマトリックスデリバティブ'],
+  'SRP': ['スケーリング・ルートプレーニング', 'ルートプレーニング'],
+  'PMTC': ['専門的機械的歯面清掃'],
+  'BOP': ['プロービング時の出血'],
+  'OHI': ['口腔衛生指導'],
+  'CEJ': ['セメント-エナメル境', 'セメントエナメル境'],
+  'ペリオ': ['歯周'],
+  'エンド': ['歯内療法'],
+  'カリエス': ['う蝕'],
+  'むし歯': ['う蝕'],
+  '虫歯': ['う蝕'],
+  'CR': ['コンポジットレジン'],
+  'GIC': ['グラスアイオノマーセメント'],
+
+  // 口腔外科・全身
+  'BP': ['ビスホスホネート'],
+  'BRONJ': ['ビスホスホネート関連顎骨壊死'],
+  'TCH': ['歯列接触癖'],
+
+  // 元素記号
+  'Ca': ['カルシウム'],
+  'Na': ['ナトリウム'],
+  'Mg': ['マグネシウム'],
+  'Fe': ['鉄'],
+  'Zn': ['亜鉛'],
+  'F': ['フッ素', 'フッ化物'],
+};
+
+// 科目の表示名から正式名への展開を作る（「全部床義歯学」は「全部床義歯」でも引けるようにする）
+function buildSubjectSynonyms(): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  for (const subject of getAllSubjects()) {
+    if (subject.displayName === subject.name) continue;
+    const terms = [subject.name];
+    if (subject.name.endsWith('学')) {
+      terms.push(subject.name.slice(0, -1));
+    }
+    result[subject.displayName] = terms;
+  }
+  return result;
+}
+
+// 正規化済みのキーで引ける辞書
+const synonymMap = new Map<string, string[]>();
+
+function register(source: Record<string, string[]>) {
+  for (const [key, terms] of Object.entries(source)) {
+    const normalizedKey = normalizeText(key);
+    const current = synonymMap.get(normalizedKey) || [];
+    const merged = [...current, ...terms.map(normalizeText)];
+    synonymMap.set(normalizedKey, [...new Set(merged)].filter(t => t !== normalizedKey));
+  }
+}
+
+register(buildSubjectSynonyms());
+register(bundledSynonyms);
+
+// 検索語の展開先を取得（見つからなければ空配列）
+export function getSynonyms(term: string): string[] {
+  return synonymMap.get(normalizeText(term)) || [];
+}
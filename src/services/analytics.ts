@@ -0,0 +1,271 @@
+// 学習分析の集計
+// 解答ログ（useProgressStore の attempts）と問題データから、科目・回次・セッション・必修別の正答率と網羅率、自信度と解答時間を出す
+
+import type { Question } from '../types/question';
+import type { Attempt } from '../store/useProgressStore';
+import { isHisshu } from './questionService';
+import { CONFIDENCE_LABELS, CONFIDENCE_LEVELS, type Confidence } from './confidence';
+import { getAnswerKind, type AnswerKind } from './grading';
+import { TARGET_TIME_PER_QUESTION_MS, countedTime } from './timing';
+import { addDays, getToday, toStudyDate } from './studyDate';
+import { getAllSubjects } from '../data/subjects';
+
+// グループごとの成績
+export interface GroupStats {
+  key: string;
+  label: string;
+  attempts: number;        // 解答回数
+  correct: number;         // 正解回数
+  accuracy: number | null; // 正答率（0〜1、未解答なら null）
+  answered: number;        // 解いたことのある問題数
+  total: number;           // 問題数
+  coverage: number;        // 網羅率（0〜1）
+}
+
+// 日ごとの推移
+export interface TrendPoint {
+  date: string;            // YYYY-MM-DD
+  attempts: number;
+  correct: number;
+  accuracy: number | null; // 直近 TREND_WINDOW_DAYS 日の正答率（解答がなければ null）
+}
+
+// グループごとの解答時間
+export interface TimeStats {
+  key: string;
+  label: string;
+  timed: number;                 // 解答時間を計測できた解答数
+  averageTimeMs: number | null;  // 1問あたりの平均時間（計測できた解答がなければ null）
+}
+
+// 正解したが時間がかかった問題（直近の正解が目安時間を超えたもの）
+export interface SlowCorrect {
+  questionId: string;
+  label: string;
+  timeSpentMs: number;
+}
+
+// 自信度ごとの正答率（自信度を選んだ解答のみ）
+export interface CalibrationPoint {
+  confidence: Confidence;
+  label: string;
+  attempts: number;
+  correct: number;
+  accuracy: number | null; // 解答がなければ null
+}
+
+export interface AnalyticsSummary {
+  bySubject: GroupStats[];
+  byYear: GroupStats[];
+  bySession: GroupStats[];
+  byHisshu: GroupStats[];
+  trend: TrendPoint[];
+  weakestSubjects: GroupStats[];
+  timeBySubject: TimeStats[];
+  timeByKind: TimeStats[];
+  slowCorrect: SlowCorrect[];   // 時間のかかった順
+  calibration: CalibrationPoint[];
+}
+
+// 推移の日数と、正答率をならす日数
+const TREND_DAYS = 30;
+const TREND_WINDOW_DAYS = 7;
+// 苦手科目とみなすのに必要な解答回数（少なすぎる科目は除く）
+const WEAK_SUBJECT_MIN_ATTEMPTS = 5;
+const WEAK_SUBJECT_COUNT = 5;
+
+// 「正解したが遅い」問題の表示件数
+const SLOW_CORRECT_COUNT = 20;
+
+const UNCLASSIFIED = '未分類';
+
+const ANSWER_KIND_LABELS: Record<Exclude<AnswerKind, 'excluded'>, string> = {
+  single: '単一選択',
+  multi: '複数選択',
+  ordering: '並び替え',
+  numeric: '計算',
+};
+
+// 問題をグループ分けして集計
+function groupStats(
+  questions: Question[],
+  attemptsById: Map<string, Attempt[]>,
+  groupOf: (q: Question) => string,
+  labelOf: (key: string) => string = key => key
+): GroupStats[] {
+  const groups = new Map<string, GroupStats>();
+
+  for (const q of questions) {
+    const key = groupOf(q);
+    let stats = groups.get(key);
+    if (!stats) {
+      stats = { key, label: labelOf(key), attempts: 0, correct: 0, accuracy: null, answered: 0, total: 0, coverage: 0 };
+      groups.set(key, stats);
+    }
+    const attempts = attemptsById.get(q.id) || [];
+    stats.total++;
+    stats.attempts += attempts.length;
+    stats.correct += attempts.filter(a => a.isCorrect).length;
+    if (attempts.length > 0) stats.answered++;
+  }
+
+  return [...groups.values()].map(stats => ({
+    ...stats,
+    accuracy: stats.attempts > 0 ? stats.correct / stats.attempts : null,
+    coverage: stats.total > 0 ? stats.answered / stats.total : 0,
+  }));
+}
+
+// 解答をグループ分けして平均解答時間を集計（計測できなかった解答は除く）
+function timeStats(
+  attempts: Attempt[],
+  groupOf: (a: Attempt) => string | null,
+  labelOf: (key: string) => string = key => key
+): TimeStats[] {
+  const groups = new Map<string, { timed: number; totalMs: number }>();
+  for (const a of attempts) {
+    const time = countedTime(a.timeSpentMs);
+    const key = groupOf(a);
+    if (time === null || key === null) continue;
+    const group = groups.get(key) || { timed: 0, totalMs: 0 };
+    group.timed++;
+    group.totalMs += time;
+    groups.set(key, group);
+  }
+  return [...groups.entries()].map(([key, group]) => ({
+    key,
+    label: labelOf(key),
+    timed: group.timed,
+    averageTimeMs: group.timed > 0 ? group.totalMs / group.timed : null,
+  }));
+}
+
+// 直近の解答が正解で、その解答に目安時間より長くかかった問題
+function buildSlowCorrect(attemptsById: Map<string, Attempt[]>, questionsById: Map<string, Question>): SlowCorrect[] {
+  const slow: SlowCorrect[] = [];
+  for (const [questionId, list] of attemptsById) {
+    const last = list[list.length - 1];
+    const time = countedTime(last.timeSpentMs);
+    const question = questionsById.get(questionId);
+    if (!last.isCorrect || time === null || time <= TARGET_TIME_PER_QUESTION_MS || !question) continue;
+    slow.push({
+      questionId,
+      label: `第${question.year}回 ${question.session}問題 問${question.number}`,
+      timeSpentMs: time,
+    });
+  }
+  return slow.sort((a, b) => b.timeSpentMs - a.timeSpentMs).slice(0, SLOW_CORRECT_COUNT);
+}
+
+// 自信度と正答率の対応（自信がある解答ほど正答率が高ければよく把握できている）
+function buildCalibration(attempts: Attempt[]): CalibrationPoint[] {
+  return CONFIDENCE_LEVELS.map(confidence => {
+    const rated = attempts.filter(a => a.confidence === confidence);
+    const correct = rated.filter(a => a.isCorrect).length;
+    return {
+      confidence,
+      label: CONFIDENCE_LABELS[confidence],
+      attempts: rated.length,
+      correct,
+      accuracy: rated.length > 0 ? correct / rated.length : null,
+    };
+  });
+}
+
+// 日ごとの推移（今日までの TREND_DAYS 日分）
+function buildTrend(attempts: Attempt[], today: string): TrendPoint[] {
+  const byDate = new Map<string, { attempts: number; correct: number }>();
+  for (const a of attempts) {
+    const date = toStudyDate(a.timestamp);
+    const day = byDate.get(date) || { attempts: 0, correct: 0 };
+    day.attempts++;
+    if (a.isCorrect) day.correct++;
+    byDate.set(date, day);
+  }
+
+  const days: { date: string; attempts: number; correct: number }[] = [];
+  for (let i = TREND_DAYS + TREND_WINDOW_DAYS - 2; i >= 0; i--) {
+    const date = addDays(today, -i);
+    days.push({ date, ...(byDate.get(date) || { attempts: 0, correct: 0 }) });
+  }
+
+  return days.slice(TREND_WINDOW_DAYS - 1).map((day, i) => {
+    const window = days.slice(i, i + TREND_WINDOW_DAYS);
+    const windowAttempts = window.reduce((sum, d) => sum + d.attempts, 0);
+    const windowCorrect = window.reduce((sum, d) => sum + d.correct, 0);
+    return {
+      ...day,
+      accuracy: windowAttempts > 0 ? windowCorrect / windowAttempts : null,
+    };
+  });
+}
+
+// 解答ログと問題データから分析結果を作る
+export function buildAnalytics(attempts: Attempt[], questions: Question[], today: string = getToday()): AnalyticsSummary {
+  const attemptsById = new Map<string, Attempt[]>();
+  for (const a of attempts) {
+    const list = attemptsById.get(a.questionId) || [];
+    list.push(a);
+    attemptsById.set(a.questionId, list);
+  }
+
+  // 科目は subjects.ts の順に並べる
+  const subjects = getAllSubjects();
+  const subjectOrder = new Map(subjects.map((s, i) => [s.name, i]));
+  const bySubject = groupStats(
+    questions,
+    attemptsById,
+    q => q.category && subjectOrder.has(q.category) ? q.category : UNCLASSIFIED,
+    key => subjects.find(s => s.name === key)?.displayName || key
+  ).sort((a, b) => (subjectOrder.get(a.key) ?? subjects.length) - (subjectOrder.get(b.key) ?? subjects.length));
+
+  const byYear = groupStats(questions, attemptsById, q => String(q.year), key => `第${key}回`)
+    .sort((a, b) => Number(b.key) - Number(a.key));
+
+  const bySession = groupStats(questions, attemptsById, q => q.session, key => `${key}問題`)
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  const byHisshu = groupStats(
+    questions,
+    attemptsById,
+    q => isHisshu(q.year, q.session, q.number) ? 'hisshu' : 'general',
+    key => key === 'hisshu' ? '必修' : '一般'
+  ).sort((a, b) => (a.key === 'hisshu' ? -1 : 1) - (b.key === 'hisshu' ? -1 : 1));
+
+  const weakestSubjects = bySubject
+    .filter(s => s.key !== UNCLASSIFIED && s.attempts >= WEAK_SUBJECT_MIN_ATTEMPTS)
+    .sort((a, b) => (a.accuracy ?? 0) - (b.accuracy ?? 0))
+    .slice(0, WEAK_SUBJECT_COUNT);
+
+  // 解答時間は解答ごとに集計する（科目は解答時点の記録、種類は問題データから引く）
+  const questionsById = new Map(questions.map(q => [q.id, q]));
+  const timeBySubject = timeStats(
+    attempts,
+    a => a.subject && subjectOrder.has(a.subject) ? a.subject : UNCLASSIFIED,
+    key => subjects.find(s => s.name === key)?.displayName || key
+  ).sort((a, b) => (subjectOrder.get(a.key) ?? subjects.length) - (subjectOrder.get(b.key) ?? subjects.length));
+
+  const kindOrder = Object.keys(ANSWER_KIND_LABELS);
+  const timeByKind = timeStats(
+    attempts,
+    a => {
+      const question = questionsById.get(a.questionId);
+      const kind = question ? getAnswerKind(question) : 'excluded';
+      return kind === 'excluded' ? null : kind;
+    },
+    key => ANSWER_KIND_LABELS[key as keyof typeof ANSWER_KIND_LABELS]
+  ).sort((a, b) => kindOrder.indexOf(a.key) - kindOrder.indexOf(b.key));
+
+  return {
+    bySubject,
+    byYear,
+    bySession,
+    byHisshu,
+    trend: buildTrend(attempts, today),
+    weakestSubjects,
+    timeBySubject,
+    timeByKind,
+    slowCorrect: buildSlowCorrect(attemptsById, questionsById),
+    calibration: buildCalibration(attempts),
+  };
+}
@@ -0,0 +1,66 @@
+// 同梱JSONから読み込むリポジトリ（既定）
+// 起動時は目録（manifest.json）だけを読み、問題と解説は回次ごとの分割データを必要になった時点で読み込む
+
+import type { QuestionsManifest } from '../types/question';
+import type { QuestionRepository } from './questionRepository';
+import {
+  createQuestionCatalog,
+  getQueryYears,
+  type QuestionCatalog,
+  type QuestionShard,
+} from './questionService';
+import manifestData from '../data/manifest.json';
+
+// 回次ごとの分割データ（ビルド時に別チャンクになり、import() で読み込まれる）
+const shardModules = import.meta.glob<QuestionShard>('../data/shards/*.json', { import: 'default' });
+
+export function createBundledRepository(): QuestionRepository {
+  const manifest = manifestData as QuestionsManifest;
+  const allYears = manifest.years.map(y => y.year);
+
+  // 読み込み中・読み込み済みの分割データ（メモリ上にキャッシュ）
+  const pendingShards = new Map<number, Promise<QuestionShard>>();
+
+  // 読み込み済みの回次全体に対する検索窓口（回次を読み込むたびにその分だけ追加する）
+  const catalog: QuestionCatalog = createQuestionCatalog({ meta: manifest.meta, questions: [] }, {});
+
+  const loadShard = (year: number): Promise<QuestionShard> => {
+    let pending = pendingShards.get(year);
+    if (!pending) {
+      const importShard = shardModules[`../data/shards/${year}.json`];
+      if (!importShard) {
+        return Promise.reject(new Error(`${year}回のデータが見つかりません`));
+      }
+      pending = importShard()
+        .then(shard => {
+          catalog.extend(shard.questions, shard.explanations);
+          return shard;
+        })
+        .catch(error => {
+          // 失敗した回次は次の呼び出しで再試行
+          pendingShards.delete(year);
+          throw error;
+        });
+      pendingShards.set(year, pending);
+    }
+    return pending;
+  };
+
+  // 指定した回次を読み込んでから検索窓口を返す
+  const getCatalog = async (years: number[]): Promise<QuestionCatalog> => {
+    await Promise.all(years.map(loadShard));
+    return catalog;
+  };
+
+  // 問題IDの先頭が回次（"118A1" → 118）
+  const yearsOfId = (id: string): number[] => allYears.filter(year => year === parseInt(id));
+
+  return {
+    list: async () => (await getCatalog(allYears)).questions,
+    getById: async (id) => (await getCatalog(yearsOfId(id))).getById(id),
+    query: async (query) => (await getCatalog(getQueryYears(query, allYears))).search(query),
+    getExplanation: async (questionId) => (await getCatalog(yearsOfId(questionId))).getExplanation(questionId),
+    meta: async () => manifest.meta,
+    manifest: async () => manifest,
+  };
+}
@@ -0,0 +1,27 @@
+// 選択肢の表示順
+// 選択肢の並びを入れ替えて表示し、記号（A〜E）は表示順に振り直す。採点・記録は元の選択肢キーで行う
+
+import type { Question } from '../types/question';
+import { createRandom, hashString, shuffle } from './random';
+
+export interface ChoiceLayout {
+  order: string[];                // 表示順の選択肢キー（元のキー）
+  labels: Record<string, string>; // 元のキー → 表示する記号（'A' など）
+}
+
+// 選択肢の表示順（seed が null なら元の順。同じシード・同じ問題なら同じ順になる）
+export function getChoiceLayout(question: Question, seed: number | null): ChoiceLayout {
+  const keys = Object.keys(question.choices).sort((a, b) => a.localeCompare(b));
+  const order = seed === null ? keys : shuffle(keys, createRandom((seed ^ hashString(question.id)) >>> 0));
+  const labels: Record<string, string> = {};
+  order.forEach((key, i) => {
+    labels[key] = String.fromCharCode(65 + i);
+  });
+  return { order, labels };
+}
+
+// 選択肢キーを表示用の記号に変換（['c', 'a'] → "CA"。順不同の解答は記号順に並べる）
+export function formatChoiceKeys(keys: string[], labels: Record<string, string> | null, ordered = false): string {
+  const symbols = keys.map(key => labels?.[key] || key.toUpperCase());
+  return (ordered ? symbols : symbols.sort()).join('');
+}
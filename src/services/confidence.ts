@@ -0,0 +1,31 @@
+// 解答の自信度
+// 解答後に「自信あり・あいまい・勘」を選んでもらい、勘で当たった正解を理解した正解と区別する
+
+// 自信度
+//   sure    : 自信をもって答えた
+//   unsure  : 迷った
+//   guessed : 勘で答えた
+export type Confidence = 'sure' | 'unsure' | 'guessed';
+
+export const CONFIDENCE_LEVELS: Confidence[] = ['sure', 'unsure', 'guessed'];
+
+export const CONFIDENCE_LABELS: Record<Confidence, string> = {
+  sure: '自信あり',
+  unsure: 'あいまい',
+  guessed: '勘',
+};
+
+interface RatedResult {
+  isCorrect: boolean;
+  confidence: Confidence | null;
+}
+
+// 勘で当たった正解か
+export function isLuckyGuess(result: RatedResult): boolean {
+  return result.isCorrect && result.confidence === 'guessed';
+}
+
+// 理解して正解したとみなせるか（自信度を選んでいない正解も含む）
+export function isKnownCorrect(result: RatedResult): boolean {
+  return result.isCorrect && result.confidence !== 'guessed';
+}
@@ -0,0 +1,52 @@
+// データ一式を読み込んでから検索するリポジトリの共通実装
+// 読み込み方（同梱JSON / HTTP / IndexedDB）だけを各実装が用意する
+
+import type { QuestionsManifest } from '../types/question';
+import type { QuestionDataset, QuestionRepository } from './questionRepository';
+import { createQuestionCatalog, type QuestionCatalog } from './questionService';
+
+// 読み込み済みのデータから回次ごとの件数を集計
+function buildManifest(catalog: QuestionCatalog, explanationIds: string[]): QuestionsManifest {
+  const years = [...new Set(catalog.questions.map(q => q.year))].sort((a, b) => a - b);
+  return {
+    meta: catalog.meta,
+    years: years.map(year => ({
+      year,
+      questionCount: catalog.questions.filter(q => q.year === year).length,
+      explanationCount: explanationIds.filter(id => parseInt(id) === year).length,
+    })),
+  };
+}
+
+export function createDatasetRepository(load: () => Promise<QuestionDataset>): QuestionRepository {
+  // 読み込みは1回だけ（失敗した場合は次の呼び出しで再試行）
+  let pending: Promise<{ catalog: QuestionCatalog; manifest: QuestionsManifest }> | null = null;
+
+  const getLoaded = () => {
+    if (!pending) {
+      pending = load()
+        .then(dataset => {
+          const catalog = createQuestionCatalog(
+            { meta: dataset.meta, questions: dataset.questions },
+            dataset.explanations
+          );
+          return { catalog, manifest: buildManifest(catalog, Object.keys(dataset.explanations)) };
+        })
+        .catch(error => {
+          pending = null;
+          throw error;
+        });
+    }
+    return pending;
+  };
+  const getCatalog = async (): Promise<QuestionCatalog> => (await getLoaded()).catalog;
+
+  return {
+    list: async () => (await getCatalog()).questions,
+    getById: async (id) => (await getCatalog()).getById(id),
+    query: async (query) => (await getCatalog()).search(query),
+    getExplanation: async (questionId) => (await getCatalog()).getExplanation(questionId),
+    meta: async () => (await getCatalog()).meta,
+    manifest: async () => (await getLoaded()).manifest,
+  };
+}
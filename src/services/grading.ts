@@ -0,0 +1,187 @@
+// 解答の採点ロジック
+// 正答の種類の判定・正誤判定・選択肢ごとの正誤はすべてここで行い、各画面で同じ採点になるようにする
+
+import type { Question } from '../types/question';
+import { formatChoiceKeys } from './choiceOrder';
+
+// 正答の種類
+//   single   : 1つ選ぶ（"A"）
+//   multi    : 複数選ぶ（"AC"、順不同）
+//   ordering : 並び替え（"CAEBD"、順序も一致が必要）
+//   numeric  : 計算問題（"12.5"）
+//   excluded : 採点除外
+export type AnswerKey =
+  | { kind: 'single'; choice: string }
+  | { kind: 'multi'; choices: string[] }
+  | { kind: 'ordering'; order: string[] }
+  | { kind: 'numeric'; value: number; text: string }
+  | { kind: 'excluded' };
+
+export type AnswerKind = AnswerKey['kind'];
+
+// 利用者の解答
+//   choices : 選んだ選択肢（選んだ順。並び替え問題では順序として採点する）
+//   numeric : 入力した数値（全角数字も可）
+export type AnswerResponse =
+  | { kind: 'choices'; choices: string[] }
+  | { kind: 'numeric'; value: string };
+
+// 選択肢ごとの判定
+//   correct : 正答で、選んでいる（並び替えでは正しい位置に置いている）
+//   missed  : 正答だが、選んでいない
+//   wrong   : 誤答を選んでいる（並び替えでは位置が違う）
+//   neutral : 誤答で、選んでいない
+export type ChoiceMark = 'correct' | 'missed' | 'wrong' | 'neutral';
+
+// 採点除外問題の扱い
+//   not-graded  : 正誤をつけない（成績・連続正解に記録しない）
+//   all-correct : どの解答も正解として扱う（本試験と同じ扱い）
+export type ExcludedPolicy = 'not-graded' | 'all-correct';
+
+export const DEFAULT_EXCLUDED_POLICY: ExcludedPolicy = 'not-graded';
+
+export interface GradeResult {
+  status: 'correct' | 'incorrect' | 'excluded';
+  isCorrect: boolean;
+  counted: boolean; // 成績として記録するか（採点除外の扱いによる）
+  choiceMarks: Record<string, ChoiceMark>;
+}
+
+// 正答文字列から選択肢キーの配列に変換（"AC" → ['a', 'c']）
+function toChoiceKeys(answer: string): string[] {
+  return answer.toLowerCase().split('').filter(c => /[a-z]/.test(c));
+}
+
+// 数値として解釈（全角数字・全角ピリオドも受け付ける）
+function parseNumber(text: string): number | null {
+  const normalized = text.normalize('NFKC').trim();
+  if (!/^-?[0-9]+(\.[0-9]+)?$/.test(normalized)) return null;
+  return parseFloat(normalized);
+}
+
+// 問題の正答を解析
+export function getAnswerKey(question: Question): AnswerKey {
+  const answer = (question.answer || '').trim();
+
+  if (question.isExcluded || !answer) {
+    return { kind: 'excluded' };
+  }
+
+  // 計算問題: 答えが数字のみ
+  if (/^[0-9.]+$/.test(answer)) {
+    const value = parseNumber(answer);
+    if (value !== null) {
+      return { kind: 'numeric', value, text: answer };
+    }
+  }
+
+  // 並び替え問題: 答えが5文字のa-e（順序が重要）
+  if (/^[A-Ea-e]{5}$/.test(answer)) {
+    return { kind: 'ordering', order: toChoiceKeys(answer) };
+  }
+
+  const choices = toChoiceKeys(answer);
+  return choices.length === 1
+    ? { kind: 'single', choice: choices[0] }
+    : { kind: 'multi', choices };
+}
+
+// 正答の種類を取得
+export function getAnswerKind(question: Question): AnswerKind {
+  return getAnswerKey(question).kind;
+}
+
+// 正答の選択肢か（解答前の表示用。並び替え・計算・採点除外では false）
+export function isCorrectChoice(question: Question, choice: string): boolean {
+  const key = getAnswerKey(question);
+  if (key.kind === 'single') return key.choice === choice;
+  if (key.kind === 'multi') return key.choices.includes(choice);
+  return false;
+}
+
+// 選択肢ごとの判定
+function markChoices(question: Question, key: AnswerKey, selected: string[]): Record<string, ChoiceMark> {
+  const marks: Record<string, ChoiceMark> = {};
+
+  for (const choice of Object.keys(question.choices)) {
+    const isSelected = selected.includes(choice);
+
+    // 採点除外は正誤をつけない
+    if (key.kind === 'excluded') {
+      marks[choice] = 'neutral';
+      continue;
+    }
+
+    if (key.kind === 'ordering') {
+      const position = selected.indexOf(choice);
+      marks[choice] = !isSelected ? 'missed' : key.order[position] === choice ? 'correct' : 'wrong';
+      continue;
+    }
+
+    const isAnswer = isCorrectChoice(question, choice);
+    if (isAnswer) {
+      marks[choice] = isSelected ? 'correct' : 'missed';
+    } else {
+      marks[choice] = isSelected ? 'wrong' : 'neutral';
+    }
+  }
+
+  return marks;
+}
+
+// 解答を採点
+export function gradeAnswer(
+  question: Question,
+  response: AnswerResponse,
+  excludedPolicy: ExcludedPolicy = DEFAULT_EXCLUDED_POLICY
+): GradeResult {
+  const key = getAnswerKey(question);
+  const selected = response.kind === 'choices' ? response.choices.map(c => c.toLowerCase()) : [];
+  const choiceMarks = markChoices(question, key, selected);
+
+  let isCorrect: boolean;
+  switch (key.kind) {
+    case 'excluded':
+      return {
+        status: 'excluded',
+        isCorrect: excludedPolicy === 'all-correct',
+        counted: excludedPolicy === 'all-correct',
+        choiceMarks,
+      };
+    case 'single':
+      isCorrect = selected.length === 1 && selected[0] === key.choice;
+      break;
+    case 'multi':
+      isCorrect = selected.length === key.choices.length && key.choices.every(c => selected.includes(c));
+      break;
+    case 'ordering':
+      isCorrect = selected.length === key.order.length && key.order.every((c, i) => selected[i] === c);
+      break;
+    case 'numeric': {
+      const value = response.kind === 'numeric' ? parseNumber(response.value) : null;
+      // 小数の表記ゆれ（0.50 と 0.5 など）は同じ値として扱う
+      isCorrect = value !== null && Math.abs(value - key.value) < 1e-9;
+      break;
+    }
+  }
+
+  return { status: isCorrect ? 'correct' : 'incorrect', isCorrect, counted: true, choiceMarks };
+}
+
+// 正答を表示用の文字列に変換（並び替えは選択肢の本文を → でつなぐ）
+// labels: 選択肢を並べ替えて表示しているときの記号（getChoiceLayout）
+export function formatAnswer(question: Question, labels: Record<string, string> | null = null): string {
+  const key = getAnswerKey(question);
+  switch (key.kind) {
+    case 'excluded':
+      return '採点除外';
+    case 'numeric':
+      return key.text;
+    case 'ordering':
+      return key.order.map(c => question.choices[c] || c.toUpperCase()).join('→');
+    case 'single':
+      return formatChoiceKeys([key.choice], labels);
+    case 'multi':
+      return formatChoiceKeys(key.choices, labels);
+  }
+}
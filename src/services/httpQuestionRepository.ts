@@ -0,0 +1,33 @@
+// APIサーバーから読み込むリポジトリ
+// 開発時は `npm run mock-api` のモックサーバーに向けられる
+//   GET /meta          → QuestionsMeta
+//   GET /questions     → Question[]
+//   GET /explanations  → Record<問題ID, Explanation>
+
+import type { Question } from '../types/question';
+import type { QuestionDataset, QuestionRepository } from './questionRepository';
+import type { Explanation, QuestionsMeta } from './questionService';
+import { createDatasetRepository } from './datasetRepository';
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`データの取得に失敗しました（${response.status} ${url}）`);
+  }
+  return response.json() as Promise<T>;
+}
+
+// APIからデータ一式を取得
+export async function fetchQuestionDataset(baseUrl: string): Promise<QuestionDataset> {
+  const root = baseUrl.replace(/\/$/, '');
+  const [meta, questions, explanations] = await Promise.all([
+    fetchJson<QuestionsMeta>(`${root}/meta`),
+    fetchJson<Question[]>(`${root}/questions`),
+    fetchJson<Record<string, Explanation>>(`${root}/explanations`),
+  ]);
+  return { meta, questions, explanations };
+}
+
+export function createHttpRepository(baseUrl: string): QuestionRepository {
+  return createDatasetRepository(() => fetchQuestionDataset(baseUrl));
+}
@@ -0,0 +1,78 @@
+// IndexedDBにキャッシュしながらAPIから読み込むリポジトリ
+// キャッシュがあれば即座にそれを使い、裏でAPIから最新版を取得して次回起動時に反映する
+
+import type { QuestionDataset, QuestionRepository } from './questionRepository';
+import { createDatasetRepository } from './datasetRepository';
+import { fetchQuestionDataset } from './httpQuestionRepository';
+
+const DB_NAME = 'kokushi-data';
+const DB_VERSION = 1;
+const STORE_NAME = 'datasets';
+const DATASET_KEY = 'current';
+
+// IDBRequest を Promise に変換
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDBが利用できません'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readCachedDataset(): Promise<QuestionDataset | null> {
+  const db = await openDatabase();
+  try {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const cached = await promisify(store.get(DATASET_KEY));
+    return (cached as QuestionDataset | undefined) || null;
+  } finally {
+    db.close();
+  }
+}
+
+async function writeCachedDataset(dataset: QuestionDataset): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await promisify(store.put(dataset, DATASET_KEY));
+  } finally {
+    db.close();
+  }
+}
+
+// データの版が変わったか（version と更新日で判定）
+function isSameVersion(a: QuestionDataset, b: QuestionDataset): boolean {
+  return a.meta.version === b.meta.version && a.meta.lastUpdated === b.meta.lastUpdated;
+}
+
+export function createIndexedDbRepository(baseUrl: string): QuestionRepository {
+  return createDatasetRepository(async () => {
+    const cached = await readCachedDataset().catch(() => null);
+
+    if (cached) {
+      // 裏で最新版を確認し、更新があればキャッシュだけ差し替える
+      fetchQuestionDataset(baseUrl)
+        .then(fresh => (isSameVersion(cached, fresh) ? undefined : writeCachedDataset(fresh)))
+        .catch(error => console.warn('Dataset refresh failed:', error));
+      return cached;
+    }
+
+    const fresh = await fetchQuestionDataset(baseUrl);
+    await writeCachedDataset(fresh).catch(error => console.warn('Dataset cache write failed:', error));
+    return fresh;
+  });
+}
@@ -0,0 +1,97 @@
+// 模擬試験の制限時間と採点
+// 必修は正答率の絶対基準、一般は目安の基準で合否を判定する（基準は examBlueprint の passThresholds）
+
+import type { Question } from '../types/question';
+import { getExamBlueprint, type PassThresholds } from '../data/examBlueprint';
+import { gradeAnswer, type AnswerResponse } from './grading';
+import { isHisshu } from './questionService';
+
+// 1問あたりの制限時間（本試験の 90問で約2時間45分 に合わせた目安）
+const SECONDS_PER_QUESTION = 110;
+
+// フォールバックの合格基準（出題構成が定義されていない回次用）
+const FALLBACK_THRESHOLDS: PassThresholds = { hisshu: 0.8, general: 0.65 };
+
+// セッションの制限時間（ミリ秒）
+export function getSessionTimeLimitMs(questionCount: number): number {
+  return questionCount * SECONDS_PER_QUESTION * 1000;
+}
+
+// 区分ごとの得点
+export interface SectionScore {
+  correct: number;
+  total: number;    // 採点対象の問題数（採点除外を除く）
+  rate: number;     // 正答率（0〜1）
+  threshold: number; // 合格基準（正答率）
+  passed: boolean;
+}
+
+export interface SessionScore {
+  session: string;
+  hisshu: { correct: number; total: number };
+  general: { correct: number; total: number };
+  unanswered: number;
+}
+
+export interface MockExamResult {
+  hisshu: SectionScore;
+  general: SectionScore;
+  bySession: SessionScore[];
+  passed: boolean;
+  // 間違えた・解答しなかった問題（採点除外を除く）
+  missedIds: string[];
+}
+
+function sectionScore(correct: number, total: number, threshold: number): SectionScore {
+  const rate = total > 0 ? correct / total : 0;
+  return { correct, total, rate, threshold, passed: total > 0 && rate >= threshold };
+}
+
+// 模擬試験を採点（questions はセッション順に並んでいること）
+export function scoreMockExam(
+  year: number,
+  questions: Question[],
+  answers: Record<string, AnswerResponse>
+): MockExamResult {
+  const thresholds = getExamBlueprint(year)?.passThresholds || FALLBACK_THRESHOLDS;
+  const sessions = new Map<string, SessionScore>();
+  const missedIds: string[] = [];
+
+  for (const q of questions) {
+    let session = sessions.get(q.session);
+    if (!session) {
+      session = { session: q.session, hisshu: { correct: 0, total: 0 }, general: { correct: 0, total: 0 }, unanswered: 0 };
+      sessions.set(q.session, session);
+    }
+
+    const response = answers[q.id];
+    // 未解答は不正解として採点する
+    const result = gradeAnswer(q, response || { kind: 'choices', choices: [] });
+    if (!result.counted) continue;
+
+    const section = isHisshu(q.year, q.session, q.number) ? session.hisshu : session.general;
+    section.total++;
+    if (result.isCorrect) {
+      section.correct++;
+    } else {
+      missedIds.push(q.id);
+    }
+    if (!response) session.unanswered++;
+  }
+
+  const bySession = [...sessions.values()];
+  const sum = (pick: (s: SessionScore) => { correct: number; total: number }, key: 'correct' | 'total') =>
+    bySession.reduce((total, s) => total + pick(s)[key], 0);
+
+  const hisshu = sectionScore(sum(s => s.hisshu, 'correct'), sum(s => s.hisshu, 'total'), thresholds.hisshu);
+  const general = sectionScore(sum(s => s.general, 'correct'), sum(s => s.general, 'total'), thresholds.general);
+
+  return {
+    hisshu,
+    general,
+    bySession,
+    // 必修のない試験（出題構成上ありえないが）では一般のみで判定
+    passed: (hisshu.total === 0 || hisshu.passed) && general.passed,
+    missedIds,
+  };
+}
@@ -0,0 +1,304 @@
+// 検索クエリの構文解析
+// "完全一致"、-除外、A OR B、(グループ)、field:値 の絞り込みを型付きASTに変換する
+
+import { getAllSubjects } from '../data/subjects';
+import { getSessionNames } from '../data/examBlueprint';
+
+// フィールド絞り込み
+export type FieldFilter =
+  | { field: 'year'; ranges: { min: number; max: number }[] }  // year:110-118, year:104,106
+  | { field: 'session'; sessions: string[] }                  // session:C, session:A,B
+  | { field: 'subject'; subject: string }                     // subject:歯周病学（科目名）
+  | { field: 'hisshu'; value: boolean }                       // hisshu:true
+  | { field: 'has'; target: 'image' | 'explanation' }         // has:image
+  | { field: 'answer'; kind: 'single' | 'multi' };            // answer:multi
+
+export type FieldName = FieldFilter['field'];
+
+// クエリのAST
+export type QueryNode =
+  | { type: 'term'; value: string }     // 通常の検索語
+  | { type: 'phrase'; value: string }   // "完全一致"
+  | { type: 'field'; filter: FieldFilter }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] };
+
+// 構文エラー（position は入力文字列中の位置）
+export interface QuerySyntaxError {
+  message: string;
+  position: number;
+}
+
+export interface ParsedQuery {
+  ast: QueryNode | null;      // 空のクエリは null
+  errors: QuerySyntaxError[]; // エラーがあっても解釈できた部分はASTに含める
+}
+
+// 字句
+type Token =
+  | { kind: 'word'; value: string; position: number }
+  | { kind: 'phrase'; value: string; position: number }
+  | { kind: 'field'; name: string; value: string; position: number }
+  | { kind: 'not' | 'or' | 'lparen' | 'rparen'; position: number };
+
+const FIELD_NAMES: FieldName[] = ['year', 'session', 'subject', 'hisshu', 'has', 'answer'];
+
+const QUOTES = ['"', '“', '”'];
+
+function isSpace(ch: string): boolean {
+  return /[\s　]/.test(ch);
+}
+
+// 語の区切りになる文字
+function isDelimiter(ch: string): boolean {
+  return isSpace(ch) || ch === '(' || ch === ')' || QUOTES.includes(ch);
+}
+
+// 字句解析
+function tokenize(input: string, errors: QuerySyntaxError[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // 閉じ引用符までを読む（閉じていなければ末尾まで）
+  const readQuoted = (start: number): string => {
+    let end = start + 1;
+    while (end < input.length && !QUOTES.includes(input[end])) end++;
+    if (end >= input.length) {
+      errors.push({ message: '引用符が閉じられていません', position: start });
+    }
+    const value = input.slice(start + 1, end);
+    i = end + 1;
+    return value;
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (isSpace(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+      continue;
+    }
+
+    if (QUOTES.includes(ch)) {
+      const position = i;
+      tokens.push({ kind: 'phrase', value: readQuoted(i), position });
+      continue;
+    }
+
+    // 語頭の - は除外
+    if (ch === '-' || ch === '－') {
+      if (i + 1 >= input.length || isSpace(input[i + 1])) {
+        errors.push({ message: '「-」の後に除外する語を続けてください', position: i });
+      } else {
+        tokens.push({ kind: 'not', position: i });
+      }
+      i++;
+      continue;
+    }
+
+    // 語を読む
+    const start = i;
+    while (i < input.length && !isDelimiter(input[i])) i++;
+    const word = input.slice(start, i);
+
+    if (word === 'OR') {
+      tokens.push({ kind: 'or', position: start });
+      continue;
+    }
+
+    const fieldMatch = word.match(/^([a-zA-Z]+)[:：](.*)$/);
+    if (fieldMatch) {
+      const name = fieldMatch[1].toLowerCase();
+      let value = fieldMatch[2];
+      // subject:"口腔インプラント学" のような引用符付きの値
+      if (!value && i < input.length && QUOTES.includes(input[i])) {
+        value = readQuoted(i);
+      }
+      tokens.push({ kind: 'field', name, value, position: start });
+      continue;
+    }
+
+    tokens.push({ kind: 'word', value: word, position: start });
+  }
+
+  return tokens;
+}
+
+// year:110-118 / year:104,106 の値を解析
+function parseYearRanges(value: string): { min: number; max: number }[] | null {
+  const ranges: { min: number; max: number }[] = [];
+  for (const part of value.split(/[,，]/)) {
+    const match = part.match(/^(\d{1,3})(?:[-~〜](\d{1,3}))?$/);
+    if (!match) return null;
+    const min = parseInt(match[1]);
+    const max = match[2] ? parseInt(match[2]) : min;
+    if (min > max) return null;
+    ranges.push({ min, max });
+  }
+  return ranges;
+}
+
+// field:値 をフィルタに変換（不正な値はエラーメッセージを返す）
+function parseFieldFilter(name: string, value: string): FieldFilter | string {
+  if (!FIELD_NAMES.includes(name as FieldName)) {
+    return `不明なフィールドです: ${name}（使えるのは ${FIELD_NAMES.join(', ')}）`;
+  }
+  if (!value) {
+    return `${name}: の後に値を指定してください`;
+  }
+
+  switch (name as FieldName) {
+    case 'year': {
+      const ranges = parseYearRanges(value);
+      return ranges ? { field: 'year', ranges } : `回次の指定が不正です: ${value}（例: year:110-118）`;
+    }
+    case 'session': {
+      const sessions = value.toUpperCase().split(/[,，]/);
+      if (sessions.some(s => !getSessionNames().includes(s))) {
+        return `セッションの指定が不正です: ${value}（例: session:C）`;
+      }
+      return { field: 'session', sessions };
+    }
+    case 'subject': {
+      const subject = getAllSubjects().find(s =>
+        s.name === value || s.displayName === value || s.id === value.toLowerCase()
+      );
+      return subject ? { field: 'subject', subject: subject.name } : `不明な科目です: ${value}`;
+    }
+    case 'hisshu': {
+      if (value === 'true' || value === 'false') {
+        return { field: 'hisshu', value: value === 'true' };
+      }
+      return `hisshu: には true か false を指定してください`;
+    }
+    case 'has': {
+      if (value === 'image' || value === 'explanation') {
+        return { field: 'has', target: value };
+      }
+      return `has: には image か explanation を指定してください`;
+    }
+    case 'answer': {
+      if (value === 'single' || value === 'multi') {
+        return { field: 'answer', kind: value };
+      }
+      return `answer: には single か multi を指定してください`;
+    }
+  }
+}
+
+// 子が1つだけの and/or は展開する
+function group(type: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { type, children };
+}
+
+// 構文解析
+export function parseQuery(input: string): ParsedQuery {
+  const errors: QuerySyntaxError[] = [];
+  const tokens = tokenize(input, errors);
+  let pos = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+
+  // OR 区切り
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+
+    while (peek()?.kind === 'or') {
+      const orToken = tokens[pos++];
+      if (children.length === 0) {
+        errors.push({ message: 'OR の前に検索語がありません', position: orToken.position });
+      }
+      const next = parseAnd();
+      if (next) {
+        children.push(next);
+      } else {
+        errors.push({ message: 'OR の後に検索語がありません', position: orToken.position });
+      }
+    }
+    return group('or', children);
+  };
+
+  // スペース区切り（AND）
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    while (pos < tokens.length) {
+      const token = peek();
+      if (!token || token.kind === 'or' || token.kind === 'rparen') break;
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    return group('and', children);
+  };
+
+  // -除外
+  const parseUnary = (): QueryNode | null => {
+    if (peek()?.kind === 'not') {
+      const notToken = tokens[pos++];
+      const next = peek();
+      if (!next || next.kind === 'or' || next.kind === 'rparen' || next.kind === 'not') {
+        errors.push({ message: '「-」の後に除外する語を続けてください', position: notToken.position });
+        return null;
+      }
+      const child = parsePrimary();
+      return child ? { type: 'not', child } : null;
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode | null => {
+    const token = tokens[pos++];
+    switch (token.kind) {
+      case 'word':
+        return { type: 'term', value: token.value };
+      case 'phrase':
+        return token.value ? { type: 'phrase', value: token.value } : null;
+      case 'field': {
+        const filter = parseFieldFilter(token.name, token.value);
+        if (typeof filter === 'string') {
+          errors.push({ message: filter, position: token.position });
+          return null;
+        }
+        return { type: 'field', filter };
+      }
+      case 'lparen': {
+        const inner = parseOr();
+        if (peek()?.kind === 'rparen') {
+          pos++;
+        } else {
+          errors.push({ message: '括弧が閉じられていません', position: token.position });
+        }
+        if (!inner) {
+          errors.push({ message: '括弧の中に検索語がありません', position: token.position });
+        }
+        return inner;
+      }
+      default:
+        // parseAnd / parseUnary で除外済み
+        return null;
+    }
+  };
+
+  // 余分な閉じ括弧は読み飛ばして続きを解析する
+  const parts: QueryNode[] = [];
+  while (pos < tokens.length) {
+    const node = parseOr();
+    if (node) parts.push(node);
+    if (peek()?.kind === 'rparen') {
+      errors.push({ message: '対応する「(」がありません', position: tokens[pos].position });
+      pos++;
+    }
+  }
+
+  return { ast: group('and', parts), errors };
+}
@@ -0,0 +1,60 @@
+// 問題データの取得元（リポジトリ）
+// 画面はすべてここ経由の非同期APIでデータを取得する
+// 取得元は環境変数 VITE_DATA_SOURCE で切り替える
+//   bundled   : アプリに同梱した回次ごとの分割JSON（既定、必要な回次だけ読み込む）
+//   http      : APIサーバー（VITE_API_BASE_URL）
+//   indexeddb : APIサーバー＋端末のIndexedDBキャッシュ（オフラインでも起動できる）
+
+import type { Question, QuestionsManifest } from '../types/question';
+import type { Explanation, QuestionQuery, QuestionSearchResult, QuestionsMeta } from './questionService';
+import { createBundledRepository } from './bundledQuestionRepository';
+import { createHttpRepository } from './httpQuestionRepository';
+import { createIndexedDbRepository } from './indexedDbQuestionRepository';
+
+export interface QuestionRepository {
+  // 有効な全問題
+  list: () => Promise<Question[]>;
+  // IDで1問取得（見つからなければ null）
+  getById: (id: string) => Promise<Question | null>;
+  // 検索（キーワードがあれば関連度順）
+  query: (query: QuestionQuery) => Promise<QuestionSearchResult[]>;
+  // 解説を取得（なければ null）
+  getExplanation: (questionId: string) => Promise<Explanation | null>;
+  // メタデータ（回次の範囲・問題数など）
+  meta: () => Promise<QuestionsMeta>;
+  // 回次ごとの件数（問題本体を読み込まずに取得できる）
+  manifest: () => Promise<QuestionsManifest>;
+}
+
+// リポジトリ間で受け渡すデータ一式
+export interface QuestionDataset {
+  meta: QuestionsMeta;
+  questions: Question[];
+  explanations: Record<string, Explanation>;
+}
+
+type DataSource = 'bundled' | 'http' | 'indexeddb';
+
+const DEFAULT_API_BASE_URL = 'http://localhost:3001';
+
+let repository: QuestionRepository | null = null;
+
+// 設定に応じたリポジトリを取得（アプリ全体で1つ）
+export function getQuestionRepository(): QuestionRepository {
+  if (!repository) {
+    const source = (import.meta.env.VITE_DATA_SOURCE || 'bundled') as DataSource;
+    const baseUrl = import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL;
+
+    switch (source) {
+      case 'http':
+        repository = createHttpRepository(baseUrl);
+        break;
+      case 'indexeddb':
+        repository = createIndexedDbRepository(baseUrl);
+        break;
+      default:
+        repository = createBundledRepository();
+    }
+  }
+  return repository;
+}
@@ -1,9 +1,30 @@
-// データ取得の抽象化層
-// 将来的にAPIやDBに切り替える時はここだけ変更すればOK
+// 問題データの検索・判定ロジック
+// データの取得元（同梱JSON / IndexedDB / API）の切り替えは questionRepository.ts で行い、
+// ここでは取得済みのデータに対する処理だけを扱う
 
 import type { Question, QuestionsData } from '../types/question';
-import questionsData from '../data/questions.json';
-import explanationsData from '../data/explanations.json';
+import {
+  createSearchIndex,
+  addToSearchIndex,
+  matchTerm,
+  filterDocs,
+  intersectDocs,
+  unionDocs,
+  toSearchHits,
+  buildSnippet,
+  type DocMatches,
+  type SearchHit,
+  type SearchIndex,
+  type SearchScope,
+  type SearchSnippet,
+} from './searchIndex';
+import { parseQuery, type FieldFilter, type QueryNode, type QuerySyntaxError } from './queryParser';
+import { normalizeText } from './textNormalizer';
+import { getSynonyms } from '../data/synonyms';
+import { getBlueprintYears, getExamBlueprint, getSessionNames } from '../data/examBlueprint';
+
+export type { SearchHit, MatchPosition, SearchScope, SearchSnippet, SearchField } from './searchIndex';
+export type { QuerySyntaxError } from './queryParser';
 
 // 解説データの型
 export interface Explanation {
@@ -16,64 +37,66 @@ export interface Explanation {
   tableContent: string | null;
 }
 
-// 解説データをマップとして保持
-const explanations = explanationsData as Record<string, Explanation>;
+// メタデータの型
+export type QuestionsMeta = QuestionsData['meta'];
 
-// 型アサーション
-const data = questionsData as QuestionsData;
+// 回次ごとの分割データ（src/data/shards/{回次}.json）
+export interface QuestionShard {
+  year: number;
+  questions: Question[];
+  explanations: Record<string, Explanation>;
+}
 
-// 有効な問題のみフィルタリング（choices/questionTextが空のものを除外、採点除外問題は含める）
-const validQuestions = data.questions.filter(q =>
-  q.questionText &&
-  q.choices &&
-  Object.keys(q.choices).length > 0 &&
-  (q.answer || q.isExcluded)  // 解答があるか、採点除外なら表示
-);
+// 検索条件（省略した項目は絞り込まない）
+export interface QuestionQuery {
+  searchText?: string;
+  years?: number[];
+  sessions?: string[];
+  hisshuOnly?: boolean;
+  scope?: SearchScope;
+}
 
-// 全問題を取得
-export function getAllQuestions(): Question[] {
-  return validQuestions;
+// 検索結果（ヒット箇所の抜粋付き）
+export interface QuestionSearchResult extends SearchHit {
+  snippet: SearchSnippet | null;
 }
 
-// メタデータを取得
-export function getMeta() {
-  return data.meta;
+// 取得済みデータに対する検索窓口
+export interface QuestionCatalog {
+  meta: QuestionsMeta;
+  questions: Question[];  // 有効な問題のみ
+  getById: (id: string) => Question | null;
+  getExplanation: (questionId: string) => Explanation | null;
+  search: (query: QuestionQuery) => QuestionSearchResult[];
+  // 問題・解説を追加（回次ごとに読み込むリポジトリ用。検索インデックスは追加分だけ索引する）
+  extend: (questions: Question[], explanations: Record<string, Explanation>) => void;
 }
 
 // 回次の範囲を取得
-export function getYearRange(): [number, number] {
-  return [data.meta.yearRange.min, data.meta.yearRange.max];
+export function getYearRange(meta: QuestionsMeta): [number, number] {
+  return [meta.yearRange.min, meta.yearRange.max];
 }
 
-// セッション一覧を取得
-export function getSessions(): string[] {
-  return ['A', 'B', 'C', 'D'];
+// セッション一覧を取得（回次を指定すればその回次のセッションのみ）
+export function getSessions(years: number[] = []): string[] {
+  return getSessionNames(years);
 }
 
-// 必修問題かどうかを判定
+// 必修問題かどうかを判定（出題構成の必修範囲による）
 export function isHisshu(year: number, session: string, number: number): boolean {
-  if (year === 102) {
-    // A1〜25, B1〜25（計50問）
-    return (session === 'A' || session === 'B') && number >= 1 && number <= 25;
-  } else if (year >= 103 && year <= 110) {
-    // A1〜35, B1〜35（計70問）
-    return (session === 'A' || session === 'B') && number >= 1 && number <= 35;
-  } else if (year >= 111 && year <= 113) {
-    // A1〜40, B1〜40（計80問）
-    return (session === 'A' || session === 'B') && number >= 1 && number <= 40;
-  } else if (year >= 114) {
-    // A1〜20, B1〜20, C1〜20, D1〜20（計80問）
-    return ['A', 'B', 'C', 'D'].includes(session) && number >= 1 && number <= 20;
-  }
-  return false;
+  const range = getExamBlueprint(year)?.sessions.find(s => s.name === session)?.hisshu;
+  return range ? number >= range.from && number <= range.to : false;
 }
 
+// 問題番号のセッション部分にマッチする文字クラス（[ABCD] など）
+const SESSION_CHARS = `[${getSessionNames().join('')}]`;
+
 // 問題番号パターンを解析（112-B-48, 112B48, 112 B 48 など）
 // 完全な形式（回次+セッション+問題番号）の場合のみマッチ
 function parseQuestionId(text: string): { year: number; session: string; number: number } | null {
-  // パターン: 数字2-3桁 + (区切り文字?) + アルファベット1文字 + (区切り文字?) + 数字1-3桁
+  // パターン: 数字2-3桁 + (区切り文字?) + セッション1文字 + (区切り文字?) + 数字1-3桁
   // 全て揃っている場合のみマッチ（部分入力は通常検索として扱う）
-  const pattern = /^(\d{2,3})[\s\-_]*([a-dA-D])[\s\-_]*(\d{1,3})$/;
+  const pattern = new RegExp(`^(\\d{2,3})[\\s\\-_]*(${SESSION_CHARS})[\\s\\-_]*(\\d{1,3})$`, 'i');
   const match = text.trim().match(pattern);
 
   if (match) {
@@ -87,16 +110,17 @@ function parseQuestionId(text: string): { year: number; session: string; number:
 }
 
 // 部分的な問題番号パターンを解析（112, 112B など入力途中）
-// 戻り値: years配列で複数回次にマッチ可能
+// 戻り値: years配列で複数回次にマッチ可能（出題構成にある回次のみ）
 function parsePartialQuestionId(text: string): { years: number[]; session?: string } | null {
   const trimmed = text.trim();
+  const knownYears = getBlueprintYears();
 
   // パターン1: 回次+セッション（112B, 112-B など）
-  const patternWithSession = /^(\d{2,3})[\s\-_]*([a-dA-D])[\s\-_]*$/i;
+  const patternWithSession = new RegExp(`^(\\d{2,3})[\\s\\-_]*(${SESSION_CHARS})[\\s\\-_]*$`, 'i');
   const matchWithSession = trimmed.match(patternWithSession);
   if (matchWithSession) {
     const year = parseInt(matchWithSession[1]);
-    if (year >= 100 && year <= 130) {
+    if (knownYears.includes(year)) {
       return {
         years: [year],
         session: matchWithSession[2].toUpperCase()
@@ -104,128 +128,246 @@ function parsePartialQuestionId(text: string): { years: number[]; session?: stri
     }
   }
 
-  // パターン2: 3桁の回次（102〜118の範囲）
+  // パターン2: 3桁の回次
   const patternYearFull = /^(\d{3})$/;
   const matchYearFull = trimmed.match(patternYearFull);
   if (matchYearFull) {
     const year = parseInt(matchYearFull[1]);
-    if (year >= 100 && year <= 130) {
+    if (knownYears.includes(year)) {
       return { years: [year] };
     }
   }
 
-  // パターン3: 2桁の部分入力（10→100-109, 11→110-118 など）
+  // パターン3: 2桁の部分入力（10→100-109, 11→110-119 のうち出題構成にある回次）
   const patternYearPartial = /^(\d{2})$/;
   const matchYearPartial = trimmed.match(patternYearPartial);
   if (matchYearPartial) {
     const prefix = parseInt(matchYearPartial[1]);
-    // 10 → 100-109, 11 → 110-119, 12 → 120-129 の範囲で該当回次を返す
-    if (prefix >= 10 && prefix <= 13) {
-      const years: number[] = [];
-      for (let i = 0; i <= 9; i++) {
-        const year = prefix * 10 + i;
-        if (year >= 102 && year <= 118) { // 実際のデータ範囲
-          years.push(year);
-        }
-      }
-      if (years.length > 0) {
-        return { years };
-      }
+    const years = knownYears.filter(year => Math.floor(year / 10) === prefix);
+    if (years.length > 0) {
+      return { years };
     }
   }
 
   return null;
 }
 
-// 問題をフィルタリング
-export function filterQuestions(
-  questions: Question[],
-  searchText: string,
-  selectedYears: number[],
-  sessions: string[],
-  hisshuOnly: boolean = false
-): Question[] {
-  const trimmedSearch = searchText.trim();
+// 解説のIDを正規化（ハイフン除去など）
+function normalizeExplanationId(questionId: string): string {
+  return questionId.replace(/[-\s]/g, '');
+}
 
-  // 問題番号形式かチェック（112-B-48 など）- 他のフィルタより優先
-  const parsed = parseQuestionId(trimmedSearch);
-  if (parsed) {
-    return questions.filter(q => {
-      const yearMatch = q.year === parsed.year;
-      const sessionMatch = q.session === parsed.session;
-      const numberMatch = q.number === parsed.number;
-      return yearMatch && sessionMatch && numberMatch;
-    });
+// フィールド絞り込みの判定
+function matchesFieldFilter(
+  q: Question,
+  filter: FieldFilter,
+  getExplanation: (questionId: string) => Explanation | null
+): boolean {
+  switch (filter.field) {
+    case 'year':
+      return filter.ranges.some(r => q.year >= r.min && q.year <= r.max);
+    case 'session':
+      return filter.sessions.includes(q.session);
+    case 'subject':
+      return q.category === filter.subject ||
+        q.keywords.includes(filter.subject) ||
+        getExplanation(q.id)?.subject === filter.subject;
+    case 'hisshu':
+      return isHisshu(q.year, q.session, q.number) === filter.value;
+    case 'has':
+      return filter.target === 'image' ? q.images.length > 0 : getExplanation(q.id) !== null;
+    case 'answer':
+      return filter.kind === 'multi' ? q.choiceCount > 1 : q.choiceCount <= 1;
   }
+}
+
+// クエリのASTを評価し、マッチした文書をスコア付きで返す
+function evaluateQuery(
+  node: QueryNode,
+  index: SearchIndex,
+  scope: SearchScope,
+  getExplanation: (questionId: string) => Explanation | null
+): DocMatches {
+  const evaluate = (child: QueryNode) => evaluateQuery(child, index, scope, getExplanation);
 
-  // 問題ID完全一致（118A1 など）- 他のフィルタより優先
-  if (trimmedSearch) {
-    const exactMatch = questions.filter(q => q.id.toLowerCase() === trimmedSearch.toLowerCase());
-    if (exactMatch.length > 0) {
-      return exactMatch;
+  switch (node.type) {
+    case 'term':
+      // 略語・俗称は正式な用語にも展開して検索（フルデン → 全部床義歯）
+      return getSynonyms(node.value)
+        .map(synonym => matchTerm(index, synonym, scope))
+        .reduce((acc, docs) => unionDocs(acc, docs), matchTerm(index, node.value, scope));
+    case 'phrase':
+      return matchTerm(index, node.value, scope);
+    case 'field':
+      return filterDocs(index, q => matchesFieldFilter(q, node.filter, getExplanation));
+    case 'not': {
+      const excluded = evaluate(node.child);
+      return filterDocs(index, (_, doc) => !excluded.has(doc));
     }
+    case 'and':
+      return node.children.map(evaluate).reduce((acc, docs) => intersectDocs(acc, docs));
+    case 'or':
+      return node.children.map(evaluate).reduce((acc, docs) => unionDocs(acc, docs));
   }
+}
+
+// 問題番号での検索かどうか（クエリ構文の対象外）
+function isQuestionIdSearch(text: string): boolean {
+  return parseQuestionId(text) !== null || parsePartialQuestionId(text) !== null;
+}
 
-  // 部分的な問題番号形式（11, 112, 112B など入力途中）- 他のフィルタより優先
-  const partialParsed = parsePartialQuestionId(trimmedSearch);
+// 検索に必要な回次を判定（分割データの読み込み範囲を決めるため）
+// 問題番号での検索ならその回次、回次指定があればその回次、それ以外は全回次
+export function getQueryYears(query: QuestionQuery, availableYears: number[]): number[] {
+  const idText = normalizeText((query.searchText || '').trim());
+
+  const parsed = parseQuestionId(idText);
+  if (parsed) {
+    return availableYears.filter(year => year === parsed.year);
+  }
+
+  const partialParsed = parsePartialQuestionId(idText);
   if (partialParsed) {
-    return questions.filter(q => {
-      const yearMatch = partialParsed.years.includes(q.year);
-      const sessionMatch = partialParsed.session ? q.session === partialParsed.session : true;
-      return yearMatch && sessionMatch;
-    });
+    return availableYears.filter(year => partialParsed.years.includes(year));
   }
 
-  return questions.filter(q => {
-    // 必修フィルタ
-    if (hisshuOnly && !isHisshu(q.year, q.session, q.number)) {
-      return false;
-    }
+  const { years = [] } = query;
+  if (years.length > 0) {
+    return availableYears.filter(year => years.includes(year));
+  }
+  return availableYears;
+}
 
-    // 回次フィルタ（複数選択）
-    if (selectedYears.length > 0 && !selectedYears.includes(q.year)) {
-      return false;
+// 検索クエリの構文エラーを取得（UI表示用）
+export function validateSearchQuery(searchText: string): QuerySyntaxError[] {
+  const trimmed = searchText.trim();
+  if (!trimmed || isQuestionIdSearch(normalizeText(trimmed))) return [];
+  return parseQuery(trimmed).errors;
+}
+
+// スコアなしの検索結果に変換
+function toHit(question: Question): SearchHit {
+  return { question, score: 0, matches: [] };
+}
+
+// 取得済みの問題・解説データから検索窓口を作る
+export function createQuestionCatalog(
+  data: QuestionsData,
+  explanations: Record<string, Explanation>
+): QuestionCatalog {
+  // 有効な問題のみフィルタリング（choices/questionTextが空のものを除外、採点除外問題は含める）
+  const filterValid = (questions: Question[]) => questions.filter(q =>
+    q.questionText &&
+    q.choices &&
+    Object.keys(q.choices).length > 0 &&
+    (q.answer || q.isExcluded)  // 解答があるか、採点除外なら表示
+  );
+  let validQuestions = filterValid(data.questions);
+  const byId = new Map(validQuestions.map(q => [q.id, q]));
+  const explanationById: Record<string, Explanation> = { ...explanations };
+
+  const getExplanation = (questionId: string): Explanation | null =>
+    explanationById[normalizeExplanationId(questionId)] || null;
+
+  // 全文検索インデックス（初回検索時に構築し、以降は追加された問題だけ索引する）
+  let index: SearchIndex | null = null;
+  const getSearchIndex = (): SearchIndex => {
+    if (!index) {
+      index = createSearchIndex(getExplanation);
+      addToSearchIndex(index, validQuestions);
     }
+    return index;
+  };
 
-    // セッションフィルタ
-    if (sessions.length > 0 && !sessions.includes(q.session)) {
-      return false;
+  const extend = (questions: Question[], moreExplanations: Record<string, Explanation>) => {
+    Object.assign(explanationById, moreExplanations);
+    const added = filterValid(questions).filter(q => !byId.has(q.id));
+    added.forEach(q => byId.set(q.id, q));
+    // 一覧は回次の古い順に保つ（読み込んだ順によらない）。取得済みの配列は書き換えない
+    validQuestions = [...validQuestions, ...added].sort((a, b) => a.year - b.year);
+    if (index) addToSearchIndex(index, added);
+  };
+
+  // 問題を検索（キーワードがあれば関連度順、マッチ位置付き）
+  const searchHits = (query: QuestionQuery): SearchHit[] => {
+    const { years = [], sessions = [], hisshuOnly = false, scope = 'questions' } = query;
+    const trimmedSearch = (query.searchText || '').trim();
+    // 全角で入力された問題番号（１１８Ａ１）も拾えるよう正規化してから判定
+    const idText = normalizeText(trimmedSearch);
+
+    // 問題番号形式かチェック（112-B-48 など）- 他のフィルタより優先
+    const parsed = parseQuestionId(idText);
+    if (parsed) {
+      return validQuestions.filter(q => {
+        const yearMatch = q.year === parsed.year;
+        const sessionMatch = q.session === parsed.session;
+        const numberMatch = q.number === parsed.number;
+        return yearMatch && sessionMatch && numberMatch;
+      }).map(toHit);
     }
 
-    // テキスト検索
+    // 問題ID完全一致（118A1 など）- 他のフィルタより優先
     if (trimmedSearch) {
+      const exactMatch = validQuestions.filter(q => q.id.toLowerCase() === idText);
+      if (exactMatch.length > 0) {
+        return exactMatch.map(toHit);
+      }
+    }
+
+    // 部分的な問題番号形式（11, 112, 112B など入力途中）- 他のフィルタより優先
+    const partialParsed = parsePartialQuestionId(idText);
+    if (partialParsed) {
+      return validQuestions.filter(q => {
+        const yearMatch = partialParsed.years.includes(q.year);
+        const sessionMatch = partialParsed.session ? q.session === partialParsed.session : true;
+        return yearMatch && sessionMatch;
+      }).map(toHit);
+    }
 
-      // スペース区切りで複数キーワード（AND検索）※半角・全角両対応
-      const keywords = trimmedSearch.split(/[\s　]+/).filter(k => k.length > 0);
+    const candidates = validQuestions.filter(q => {
+      // 必修フィルタ
+      if (hisshuOnly && !isHisshu(q.year, q.session, q.number)) {
+        return false;
+      }
 
-      // 全てのキーワードにマッチする必要あり（AND検索）
-      const matchesAll = keywords.every(keyword => {
-        const lowerKeyword = keyword.toLowerCase();
-        const inQuestion = q.questionText.toLowerCase().includes(lowerKeyword);
-        const inChoices = Object.values(q.choices).some(
-          c => c.toLowerCase().includes(lowerKeyword)
-        );
-        return inQuestion || inChoices;
-      });
+      // 回次フィルタ（複数選択）
+      if (years.length > 0 && !years.includes(q.year)) {
+        return false;
+      }
 
-      if (!matchesAll) {
+      // セッションフィルタ
+      if (sessions.length > 0 && !sessions.includes(q.session)) {
         return false;
       }
-    }
 
-    return true;
-  });
-}
+      return true;
+    });
 
-// 解説を取得
-export function getExplanation(questionId: string): Explanation | null {
-  // IDを正規化（ハイフン除去など）
-  const normalizedId = questionId.replace(/[-\s]/g, '');
-  return explanations[normalizedId] || null;
-}
+    // クエリを解析（スペース区切りはAND、"完全一致"、-除外、OR、field:値）
+    // 構文エラーがあっても解釈できた部分で検索する
+    const { ast } = parseQuery(trimmedSearch);
+    if (!ast) {
+      return candidates.map(toHit);
+    }
+
+    // インデックスで検索し、絞り込み済みの候補に含まれるものだけ残す
+    const searchIdx = getSearchIndex();
+    const candidateIds = new Set(candidates.map(q => q.id));
+    return toSearchHits(searchIdx, evaluateQuery(ast, searchIdx, scope, getExplanation))
+      .filter(hit => candidateIds.has(hit.question.id));
+  };
 
-// 解説があるかチェック
-export function hasExplanation(questionId: string): boolean {
-  const normalizedId = questionId.replace(/[-\s]/g, '');
-  return normalizedId in explanations;
+  return {
+    meta: data.meta,
+    get questions() {
+      return validQuestions;
+    },
+    getById: (id) => byId.get(id) || null,
+    getExplanation,
+    search: (query) => searchHits(query).map(hit => ({
+      ...hit,
+      snippet: hit.matches.length > 0 ? buildSnippet(getSearchIndex(), hit) : null,
+    })),
+    extend,
+  };
 }
@@ -0,0 +1,148 @@
+// 問題セットの作成
+// 条件（科目と比重・回次の範囲・必修のみ・解答状況・図のある問題のみ）に合う問題から、指定した数だけ選ぶ
+
+import type { Question } from '../types/question';
+import type { Attempt } from '../store/useProgressStore';
+import { isKnownCorrect } from './confidence';
+import { isHisshu } from './questionService';
+import { shuffle, type RandomSource } from './random';
+
+// 解答状況での絞り込み
+//   all        : すべて
+//   unseen     : まだ解いていない
+//   wrong-last : 前回間違えた（勘で当たった場合を含む）
+//   bookmarked : ブックマークした
+//   due        : 復習日が来ている（単語帳）
+export type QuizStatusFilter = 'all' | 'unseen' | 'wrong-last' | 'bookmarked' | 'due';
+
+export interface QuizConfig {
+  count: number;
+  // 科目（Subject.name）ごとの比重。空なら科目を問わず選ぶ
+  subjectWeights: Record<string, number>;
+  yearRange: { from: number; to: number } | null;
+  hisshuOnly: boolean;
+  status: QuizStatusFilter;
+  figureOnly: boolean;
+}
+
+// 解答状況の判定に使う情報（各ストアから集める）
+export interface QuizContext {
+  answeredIds: Set<string>;
+  attempts: Attempt[];
+  bookmarkedIds: Set<string>;
+  dueIds: Set<string>;
+}
+
+export const DEFAULT_QUIZ_CONFIG: QuizConfig = {
+  count: 20,
+  subjectWeights: {},
+  yearRange: null,
+  hisshuOnly: false,
+  status: 'all',
+  figureOnly: false,
+};
+
+function hasSubjectWeights(config: QuizConfig): boolean {
+  return Object.values(config.subjectWeights).some(w => w > 0);
+}
+
+// 条件に合う問題（採点除外は除く）
+export function filterQuizQuestions(questions: Question[], config: QuizConfig, context: QuizContext): Question[] {
+  // 問題ごとの最後の結果（勘で当たった正解は不正解として扱う）
+  const lastResults = new Map<string, boolean>();
+  for (const a of context.attempts) lastResults.set(a.questionId, isKnownCorrect(a));
+
+  const weighted = hasSubjectWeights(config);
+
+  return questions.filter(q => {
+    if (q.isExcluded) return false;
+    if (weighted && !(q.category && (config.subjectWeights[q.category] || 0) > 0)) return false;
+    if (config.yearRange && (q.year < config.yearRange.from || q.year > config.yearRange.to)) return false;
+    if (config.hisshuOnly && !isHisshu(q.year, q.session, q.number)) return false;
+    if (config.figureOnly && !q.hasFigure) return false;
+    switch (config.status) {
+      case 'unseen':
+        return !context.answeredIds.has(q.id);
+      case 'wrong-last':
+        return lastResults.get(q.id) === false;
+      case 'bookmarked':
+        return context.bookmarkedIds.has(q.id);
+      case 'due':
+        return context.dueIds.has(q.id);
+      case 'all':
+        return true;
+    }
+  });
+}
+
+// 出題数を比重に応じて科目に割り振る（足りない科目の分は他の科目に回す）
+function allocate(count: number, groups: { key: string; weight: number; available: number }[]): Map<string, number> {
+  const allocation = new Map(groups.map(g => [g.key, 0]));
+  let remaining = count;
+  let active = groups.filter(g => g.weight > 0 && g.available > 0);
+
+  while (remaining > 0 && active.length > 0) {
+    const totalWeight = active.reduce((sum, g) => sum + g.weight, 0);
+    const shares = active.map(g => ({ group: g, exact: (remaining * g.weight) / totalWeight }));
+    const room = (g: { key: string; available: number }) => g.available - (allocation.get(g.key) || 0);
+
+    let assigned = 0;
+    for (const { group, exact } of shares) {
+      const n = Math.min(room(group), Math.floor(exact));
+      allocation.set(group.key, (allocation.get(group.key) || 0) + n);
+      assigned += n;
+    }
+
+    // 端数しか残っていなければ、小数部分の大きい科目から1問ずつ
+    if (assigned === 0) {
+      shares.sort((a, b) => (b.exact % 1) - (a.exact % 1));
+      for (const { group } of shares) {
+        if (assigned >= remaining) break;
+        if (room(group) > 0) {
+          allocation.set(group.key, (allocation.get(group.key) || 0) + 1);
+          assigned++;
+        }
+      }
+    }
+
+    remaining -= assigned;
+    active = active.filter(g => room(g) > 0);
+  }
+
+  return allocation;
+}
+
+// 問題セットを作る（問題IDを出題順に返す。条件に合う問題が足りなければ少なくなる）
+export function buildQuiz(
+  questions: Question[],
+  config: QuizConfig,
+  context: QuizContext,
+  random: RandomSource = Math.random
+): string[] {
+  const pool = filterQuizQuestions(questions, config, context);
+
+  if (!hasSubjectWeights(config)) {
+    return shuffle(pool, random).slice(0, config.count).map(q => q.id);
+  }
+
+  const bySubject = new Map<string, Question[]>();
+  for (const q of pool) {
+    const list = bySubject.get(q.category as string) || [];
+    list.push(q);
+    bySubject.set(q.category as string, list);
+  }
+
+  const allocation = allocate(
+    config.count,
+    Object.entries(config.subjectWeights).map(([key, weight]) => ({
+      key,
+      weight,
+      available: bySubject.get(key)?.length || 0,
+    }))
+  );
+
+  const picked = [...bySubject.entries()].flatMap(([subject, list]) =>
+    shuffle(list, random).slice(0, allocation.get(subject) || 0)
+  );
+  return shuffle(picked, random).map(q => q.id);
+}
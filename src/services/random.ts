@@ -0,0 +1,56 @@
+// シード付きの乱数とシャッフル
+// 同じシードなら同じ順番になるので、出題順を保存・再現できる
+
+// 0以上1未満の乱数を返す関数
+export type RandomSource = () => number;
+
+// シードを作る（32bit の符号なし整数）
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+// シード付きの乱数（mulberry32）
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+// 文字列から32bitのシードを作る（FNV-1a）。同じシードでも問題ごとに違う並びにするのに使う
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// 偏りのないシャッフル（Fisher-Yates）。元の配列は変更しない
+export function shuffle<T>(items: readonly T[], random: RandomSource = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// 重みに応じて1つ選ぶ（重みがすべて0なら null）
+export function pickWeighted<T>(items: readonly { item: T; weight: number }[], random: RandomSource = Math.random): T | null {
+  const total = items.reduce((sum, i) => sum + Math.max(0, i.weight), 0);
+  if (total <= 0) return null;
+  let r = random() * total;
+  for (const { item, weight } of items) {
+    if (weight <= 0) continue;
+    r -= weight;
+    if (r < 0) return item;
+  }
+  // 浮動小数点の誤差で残った場合は最後の候補
+  return [...items].reverse().find(i => i.weight > 0)?.item ?? null;
+}
@@ -0,0 +1,352 @@
+// 全文検索インデックス
+// 日本語は単語区切りがないため、文字bigramの転置インデックスで検索する
+// 検索式（AND/OR/除外）の組み立ては DocMatches 同士の集合演算で行う
+
+import type { Question } from '../types/question';
+import { normalizeWithOffsets, normalizeText, toOriginalRange, type NormalizedText } from './textNormalizer';
+
+// 検索対象フィールド（選択肢は "choice:a" のようにキー付き）
+export type SearchField =
+  | 'questionText'
+  | `choice:${string}`
+  | 'explanation.dialogue'
+  | 'explanation.points'
+  | 'explanation.tableContent';
+
+// 検索範囲
+export type SearchScope = 'questions' | 'explanations' | 'both';
+
+// インデックスに含める解説の本文
+export interface ExplanationText {
+  dialogue: string;
+  points: string | null;
+  tableContent: string | null;  // JSON文字列（行オブジェクトの配列）
+}
+
+export type ExplanationLookup = (questionId: string) => ExplanationText | null;
+
+// マッチ位置（元テキストでのフィールド内の文字オフセット）
+export interface MatchPosition {
+  field: SearchField;
+  start: number;
+  length: number;
+}
+
+// 検索結果1件
+export interface SearchHit {
+  question: Question;
+  score: number;              // 関連度スコア（高いほど上位）
+  matches: MatchPosition[];   // ハイライト用のマッチ位置
+}
+
+// 1文書内のフィールド
+interface IndexedField {
+  field: SearchField;
+  normalized: NormalizedText; // 正規化済みテキスト（元テキストとの位置対応付き）
+  weight: number;             // スコアの重み
+}
+
+// 転置リストの要素
+interface Posting {
+  doc: number;
+  field: number;
+  positions: number[];
+}
+
+export interface SearchIndex {
+  questions: Question[];
+  explanationOf: ExplanationLookup;       // スニペット作成時に元テキストを引くため保持
+  fields: IndexedField[][];               // 文書ごとのフィールド
+  postings: Map<string, Posting[]>;       // bigram → 出現位置
+  bigramsByChar: Map<string, string[]>;   // 先頭文字 → bigram一覧（1文字検索用）
+}
+
+// フィールドごとの重み（問題文のヒットを選択肢・解説より優先）
+const FIELD_WEIGHTS = {
+  questionText: 2,
+  choice: 1,
+  explanation: 1,
+};
+
+// 末尾の文字もbigramの先頭になるよう付け足す番兵
+const END_MARK = '\u0000';
+
+// 文字bigramに分割（位置付き）
+export function tokenize(text: string): { token: string; position: number }[] {
+  const padded = text + END_MARK;
+  const tokens: { token: string; position: number }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    tokens.push({ token: padded.slice(i, i + 2), position: i });
+  }
+  return tokens;
+}
+
+// 解説の表（JSON）を「列名: 値」の読める形に展開
+function flattenTable(tableContent: string): string {
+  try {
+    const rows = JSON.parse(tableContent) as Record<string, string>[];
+    return rows
+      .map(row => Object.entries(row).map(([key, value]) => `${key}: ${value}`).join(' / '))
+      .join('\n');
+  } catch {
+    return tableContent;
+  }
+}
+
+// フィールドが検索範囲に含まれるか
+export function isFieldInScope(field: SearchField, scope: SearchScope): boolean {
+  if (scope === 'both') return true;
+  const isExplanation = field.startsWith('explanation.');
+  return scope === 'explanations' ? isExplanation : !isExplanation;
+}
+
+// 問題（と解説）から検索対象フィールドの元テキストを取り出す
+function sourceFields(question: Question, explanationOf: ExplanationLookup): { field: SearchField; text: string; weight: number }[] {
+  const fields: { field: SearchField; text: string; weight: number }[] = [
+    { field: 'questionText', text: question.questionText, weight: FIELD_WEIGHTS.questionText },
+  ];
+  for (const [key, value] of Object.entries(question.choices)) {
+    fields.push({ field: `choice:${key}`, text: value, weight: FIELD_WEIGHTS.choice });
+  }
+
+  const explanation = explanationOf(question.id);
+  if (explanation) {
+    fields.push({ field: 'explanation.dialogue', text: explanation.dialogue, weight: FIELD_WEIGHTS.explanation });
+    if (explanation.points) {
+      fields.push({ field: 'explanation.points', text: explanation.points, weight: FIELD_WEIGHTS.explanation });
+    }
+    if (explanation.tableContent) {
+      fields.push({ field: 'explanation.tableContent', text: flattenTable(explanation.tableContent), weight: FIELD_WEIGHTS.explanation });
+    }
+  }
+  return fields;
+}
+
+// 空のインデックスを作る（問題は addToSearchIndex で追加する）
+export function createSearchIndex(explanationOf: ExplanationLookup): SearchIndex {
+  return { questions: [], explanationOf, fields: [], postings: new Map(), bigramsByChar: new Map() };
+}
+
+// 問題をインデックスに追加（追加した問題だけを索引するので、回次ごとに読み込んでも作り直さない）
+export function addToSearchIndex(index: SearchIndex, questions: Question[]): void {
+  const { fields, postings, bigramsByChar, explanationOf } = index;
+
+  for (const question of questions) {
+    const doc = index.questions.length;
+    index.questions.push(question);
+    const docFields: IndexedField[] = sourceFields(question, explanationOf).map(({ field, text, weight }) => ({
+      field,
+      normalized: normalizeWithOffsets(text),
+      weight,
+    }));
+    fields.push(docFields);
+
+    docFields.forEach((f, fieldIndex) => {
+      // 同じフィールド内の出現位置をまとめてから登録
+      const positionsByToken = new Map<string, number[]>();
+      for (const { token, position } of tokenize(f.normalized.text)) {
+        const list = positionsByToken.get(token);
+        if (list) {
+          list.push(position);
+        } else {
+          positionsByToken.set(token, [position]);
+        }
+      }
+      for (const [token, positions] of positionsByToken) {
+        const list = postings.get(token);
+        const posting = { doc, field: fieldIndex, positions };
+        if (list) {
+          list.push(posting);
+        } else {
+          postings.set(token, [posting]);
+          // 初めて出てきたbigramは先頭文字の一覧にも登録
+          const sameHead = bigramsByChar.get(token[0]);
+          if (sameHead) {
+            sameHead.push(token);
+          } else {
+            bigramsByChar.set(token[0], [token]);
+          }
+        }
+      }
+    });
+  }
+}
+
+
+// 正規化済みの語を検索し、文書番号ごとのマッチ位置（元テキスト基準）を返す
+function findTerm(index: SearchIndex, term: string): Map<number, MatchPosition[]> {
+  const result = new Map<number, MatchPosition[]>();
+  const addMatch = (doc: number, field: number, start: number, length: number) => {
+    const f = index.fields[doc][field];
+    const match = { field: f.field, ...toOriginalRange(f.normalized, start, length) };
+    const list = result.get(doc);
+    if (list) {
+      list.push(match);
+    } else {
+      result.set(doc, [match]);
+    }
+  };
+
+  if (term.length === 0) return result;
+
+  // 1文字の場合はその文字で始まる全bigramを集める
+  if (term.length === 1) {
+    for (const token of index.bigramsByChar.get(term) || []) {
+      for (const { doc, field, positions } of index.postings.get(token) || []) {
+        positions.forEach(p => addMatch(doc, field, p, 1));
+      }
+    }
+    return result;
+  }
+
+  // 最も出現数の少ないbigramを起点に候補を絞り、本文と照合して確定する
+  let anchorOffset = 0;
+  let anchorPostings: Posting[] | undefined;
+  for (let i = 0; i < term.length - 1; i++) {
+    const list = index.postings.get(term.slice(i, i + 2));
+    if (!list) return result;
+    if (!anchorPostings || list.length < anchorPostings.length) {
+      anchorPostings = list;
+      anchorOffset = i;
+    }
+  }
+
+  for (const { doc, field, positions } of anchorPostings || []) {
+    const text = index.fields[doc][field].normalized.text;
+    for (const p of positions) {
+      const start = p - anchorOffset;
+      if (start >= 0 && text.startsWith(term, start)) {
+        addMatch(doc, field, start, term.length);
+      }
+    }
+  }
+  return result;
+}
+
+// 語の一致をスコアに変換（IDF × 重み付き出現数の対数）
+function scoreTerm(index: SearchIndex, doc: number, matches: MatchPosition[], docFrequency: number): number {
+  const idf = Math.log(1 + index.questions.length / docFrequency);
+  const weighted = matches.reduce((sum, m) => {
+    const f = index.fields[doc].find(field => field.field === m.field);
+    return sum + (f ? f.weight : 1);
+  }, 0);
+  return idf * (1 + Math.log(weighted));
+}
+
+// 文書ごとの集計中スコア
+export interface ScoredDoc {
+  score: number;
+  matches: MatchPosition[];
+}
+
+// 文書番号 → スコア（検索式の評価単位）
+export type DocMatches = Map<number, ScoredDoc>;
+
+// 1つの語にマッチする文書をスコア付きで返す（検索範囲外のフィールドのヒットは除く）
+export function matchTerm(index: SearchIndex, term: string, scope: SearchScope): DocMatches {
+  const found = findTerm(index, normalizeText(term));
+  if (scope !== 'both') {
+    for (const [doc, matches] of found) {
+      const inScope = matches.filter(m => isFieldInScope(m.field, scope));
+      if (inScope.length > 0) {
+        found.set(doc, inScope);
+      } else {
+        found.delete(doc);
+      }
+    }
+  }
+
+  const result: DocMatches = new Map();
+  for (const [doc, matches] of found) {
+    result.set(doc, { score: scoreTerm(index, doc, matches, found.size), matches });
+  }
+  return result;
+}
+
+// 条件に合う文書をスコアなしで返す（フィールド絞り込み・除外用）
+export function filterDocs(index: SearchIndex, predicate: (question: Question, doc: number) => boolean): DocMatches {
+  const result: DocMatches = new Map();
+  index.questions.forEach((question, doc) => {
+    if (predicate(question, doc)) {
+      result.set(doc, { score: 0, matches: [] });
+    }
+  });
+  return result;
+}
+
+// 両方にマッチする文書（AND）
+export function intersectDocs(a: DocMatches, b: DocMatches): DocMatches {
+  const result: DocMatches = new Map();
+  for (const [doc, left] of a) {
+    const right = b.get(doc);
+    if (right) {
+      result.set(doc, { score: left.score + right.score, matches: [...left.matches, ...right.matches] });
+    }
+  }
+  return result;
+}
+
+// どちらかにマッチする文書（OR）
+export function unionDocs(a: DocMatches, b: DocMatches): DocMatches {
+  const result: DocMatches = new Map(a);
+  for (const [doc, right] of b) {
+    const left = result.get(doc);
+    result.set(doc, left
+      ? { score: left.score + right.score, matches: [...left.matches, ...right.matches] }
+      : right);
+  }
+  return result;
+}
+
+// 関連度順の検索結果に変換
+export function toSearchHits(index: SearchIndex, docs: DocMatches): SearchHit[] {
+  return [...docs.entries()]
+    .sort(([docA, a], [docB, b]) => b.score - a.score || docA - docB)
+    .map(([doc, { score, matches }]) => ({
+      question: index.questions[doc],
+      score,
+      matches: [...matches].sort((a, b) => a.field.localeCompare(b.field) || a.start - b.start),
+    }));
+}
+
+// 検索結果の抜粋
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;                                   // 前後を切り詰めた抜粋（改行は空白に置換）
+  highlights: { start: number; length: number }[]; // 抜粋内のヒット位置
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+// 抜粋を作るフィールドの優先順
+const SNIPPET_FIELD_ORDER = ['questionText', 'choice:', 'explanation.dialogue', 'explanation.points', 'explanation.tableContent'];
+
+function snippetPriority(field: SearchField): number {
+  const idx = SNIPPET_FIELD_ORDER.findIndex(prefix => field.startsWith(prefix));
+  return idx === -1 ? SNIPPET_FIELD_ORDER.length : idx;
+}
+
+// ヒット箇所の前後 radius 文字を抜き出す
+export function buildSnippet(index: SearchIndex, hit: SearchHit, radius: number = 30): SearchSnippet | null {
+  if (hit.matches.length === 0) return null;
+
+  const first = [...hit.matches].sort((a, b) =>
+    snippetPriority(a.field) - snippetPriority(b.field) || a.start - b.start
+  )[0];
+  const source = sourceFields(hit.question, index.explanationOf).find(f => f.field === first.field);
+  if (!source) return null;
+
+  const start = Math.max(0, first.start - radius);
+  const end = Math.min(source.text.length, first.start + first.length + radius);
+  const highlights = hit.matches
+    .filter(m => m.field === first.field && m.start >= start && m.start + m.length <= end)
+    .map(m => ({ start: m.start - start, length: m.length }));
+
+  return {
+    field: first.field,
+    text: source.text.slice(start, end).replace(/\n/g, ' '),
+    highlights,
+    truncatedStart: start > 0,
+    truncatedEnd: end < source.text.length,
+  };
+}
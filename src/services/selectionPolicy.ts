@@ -0,0 +1,139 @@
+// 学習モードの出題方針
+// 未解答・最近間違えた問題・復習日が来た問題・苦手科目の問題を、設定した割合で混ぜて1問ずつ選ぶ
+
+import type { Question } from '../types/question';
+import type { Attempt } from '../store/useProgressStore';
+import { buildAnalytics } from './analytics';
+import { isKnownCorrect } from './confidence';
+import { createRandom, pickWeighted, shuffle } from './random';
+import { daysBetween, getToday, toStudyDate } from './studyDate';
+
+// 出題の枠
+//   unseen : まだ解いていない問題
+//   wrong  : 最近間違えた問題（勘で当たった問題を含む）
+//   due    : 復習日が来ている問題（単語帳）
+//   weak   : 苦手科目の問題（定着したものを除く）
+export type SelectionBucket = 'unseen' | 'wrong' | 'due' | 'weak';
+
+export const SELECTION_BUCKETS: SelectionBucket[] = ['unseen', 'wrong', 'due', 'weak'];
+
+export const SELECTION_BUCKET_LABELS: Record<SelectionBucket, string> = {
+  unseen: '未解答',
+  wrong: '最近の不正解・勘',
+  due: '復習日',
+  weak: '苦手科目',
+};
+
+// 枠ごとの比重（合計が100でなくてもよい）
+export type SelectionMix = Record<SelectionBucket, number>;
+
+export const DEFAULT_SELECTION_MIX: SelectionMix = { unseen: 40, wrong: 25, due: 20, weak: 15 };
+
+// 出題を選ぶのに使う情報（各ストアから集める）
+export interface SelectionContext {
+  attempts: Attempt[];
+  answeredIds: Set<string>;
+  dueIds: Set<string>;
+}
+
+// 選んだ問題と、どの枠から選んだか（rest: どの枠も空で残りから選んだ）
+export interface SelectedQuestion {
+  question: Question;
+  bucket: SelectionBucket | 'rest';
+}
+
+export interface SelectionPolicy {
+  // 次の問題（出題できる問題がなくなれば null）
+  next: () => SelectedQuestion | null;
+  setMix: (mix: SelectionMix) => void;
+}
+
+// 「最近間違えた」とみなす日数
+const RECENT_WRONG_DAYS = 14;
+// 直近この回数続けて正解していれば定着したとみなす
+const MASTERED_STREAK = 2;
+
+// 問題ごとの直近の連続正解数（勘で当たった正解は数えない）と最後の解答
+function summarizeAttempts(attempts: Attempt[]): Map<string, { streak: number; last: Attempt }> {
+  const summary = new Map<string, { streak: number; last: Attempt }>();
+  for (const a of attempts) {
+    const prev = summary.get(a.questionId);
+    summary.set(a.questionId, { streak: isKnownCorrect(a) ? (prev?.streak || 0) + 1 : 0, last: a });
+  }
+  return summary;
+}
+
+// 出題方針を作る（同じシード・同じ解答状況なら同じ順に出題する）
+// alreadyServed: 再開したセッションで出題済みの問題（もう一度は選ばない）
+export function createSelectionPolicy(
+  questions: Question[],
+  context: SelectionContext,
+  mix: SelectionMix,
+  seed: number,
+  alreadyServed: Iterable<string> = []
+): SelectionPolicy {
+  const random = createRandom(seed);
+  const today = getToday();
+  const summary = summarizeAttempts(context.attempts);
+  const weakSubjects = new Set(buildAnalytics(context.attempts, questions, today).weakestSubjects.map(s => s.key));
+
+  const candidates: Record<SelectionBucket, Question[]> = { unseen: [], wrong: [], due: [], weak: [] };
+  const rest: Question[] = [];
+  const mastered: Question[] = [];
+
+  for (const q of questions) {
+    if (q.isExcluded) continue;
+    const s = summary.get(q.id);
+    const isMastered = !!s && s.streak >= MASTERED_STREAK;
+
+    if (context.dueIds.has(q.id)) candidates.due.push(q);
+    if (!context.answeredIds.has(q.id)) {
+      candidates.unseen.push(q);
+    } else if (s && !isKnownCorrect(s.last) && daysBetween(toStudyDate(s.last.timestamp), today) <= RECENT_WRONG_DAYS) {
+      candidates.wrong.push(q);
+    }
+    if (q.category && weakSubjects.has(q.category) && !isMastered) candidates.weak.push(q);
+
+    if (isMastered) {
+      mastered.push(q);
+    } else {
+      rest.push(q);
+    }
+  }
+
+  // 末尾から取り出すので、シャッフル済みの配列をそのまま使う
+  const buckets: Record<SelectionBucket, Question[]> = {
+    unseen: shuffle(candidates.unseen, random),
+    wrong: shuffle(candidates.wrong, random),
+    due: shuffle(candidates.due, random),
+    weak: shuffle(candidates.weak, random),
+  };
+  // どの枠も空になったら、定着していない問題 → 定着した問題の順に出す
+  const fallback = [...shuffle(mastered, random), ...shuffle(rest, random)];
+
+  const served = new Set<string>(alreadyServed);
+  let currentMix = mix;
+
+  // 出題済みの問題を末尾から取り除き、残りがあるか返す
+  const hasRemaining = (list: Question[]) => {
+    while (list.length > 0 && served.has(list[list.length - 1].id)) list.pop();
+    return list.length > 0;
+  };
+
+  return {
+    next: () => {
+      const bucket = pickWeighted(
+        SELECTION_BUCKETS.map(b => ({ item: b, weight: hasRemaining(buckets[b]) ? currentMix[b] : 0 })),
+        random
+      );
+      const list = bucket ? buckets[bucket] : fallback;
+      if (!hasRemaining(list)) return null;
+      const question = list.pop() as Question;
+      served.add(question.id);
+      return { question, bucket: bucket || 'rest' };
+    },
+    setMix: (nextMix) => {
+      currentMix = nextMix;
+    },
+  };
+}
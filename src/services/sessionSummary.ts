@@ -0,0 +1,69 @@
+// セッションの振り返り
+// セッション中に記録した解答（useProgressStore の attempts）から、正答率・解答時間・科目別の成績を集計する
+
+import type { Attempt } from '../store/useProgressStore';
+import { getSubjectByName } from '../data/subjects';
+import { isLuckyGuess } from './confidence';
+import { countedTime } from './timing';
+
+export interface SubjectBreakdown {
+  subject: string | null;
+  label: string;
+  answered: number;
+  correct: number;
+}
+
+export interface SessionSummary {
+  answered: number;
+  correct: number;
+  accuracy: number | null;       // 0〜1（解答がなければ null）
+  totalTimeMs: number;           // 計測できた解答の合計時間（1問あたり上限あり）
+  averageTimeMs: number | null;  // 1問あたりの平均時間（計測できた解答がなければ null）
+  bySubject: SubjectBreakdown[]; // 解答数の多い順
+  missedIds: string[];           // 間違えた問題（出題順）
+  guessedIds: string[];          // 勘で当たった問題（出題順）
+}
+
+// セッションの問題（questionIds）について、開始時刻（since）以降の最初の解答を集計
+export function buildSessionSummary(attempts: Attempt[], questionIds: string[], since: number): SessionSummary {
+  const targets = new Set(questionIds);
+  const firstAttempts = new Map<string, Attempt>();
+  for (const a of attempts) {
+    if (a.timestamp >= since && targets.has(a.questionId) && !firstAttempts.has(a.questionId)) {
+      firstAttempts.set(a.questionId, a);
+    }
+  }
+
+  const answered = [...firstAttempts.values()];
+  const correct = answered.filter(a => a.isCorrect).length;
+  const times = answered.map(a => countedTime(a.timeSpentMs)).filter((t): t is number => t !== null);
+  const totalTimeMs = times.reduce((sum, t) => sum + t, 0);
+
+  const subjects = new Map<string, SubjectBreakdown>();
+  for (const a of answered) {
+    const key = a.subject || '';
+    const entry = subjects.get(key) || {
+      subject: a.subject,
+      label: a.subject ? getSubjectByName(a.subject)?.displayName || a.subject : '未分類',
+      answered: 0,
+      correct: 0,
+    };
+    entry.answered++;
+    if (a.isCorrect) entry.correct++;
+    subjects.set(key, entry);
+  }
+
+  return {
+    answered: answered.length,
+    correct,
+    accuracy: answered.length > 0 ? correct / answered.length : null,
+    totalTimeMs,
+    averageTimeMs: times.length > 0 ? totalTimeMs / times.length : null,
+    bySubject: [...subjects.values()].sort((a, b) => b.answered - a.answered),
+    missedIds: questionIds.filter(id => firstAttempts.get(id)?.isCorrect === false),
+    guessedIds: questionIds.filter(id => {
+      const attempt = firstAttempts.get(id);
+      return !!attempt && isLuckyGuess(attempt);
+    }),
+  };
+}
@@ -0,0 +1,103 @@
+// 間隔反復（SM-2 方式）のスケジューリング
+// カードの状態から次の復習日を計算する。状態の保存は useFlashcardStore で行う
+
+import { addDays } from './studyDate';
+
+// 復習時の評価
+//   again : 思い出せなかった（今日もう一度）
+//   hard  : 思い出せたが難しかった
+//   good  : 思い出せた
+//   easy  : 簡単だった
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_RATINGS: ReviewRating[] = ['again', 'hard', 'good', 'easy'];
+
+// カードの復習状態
+export interface CardSchedule {
+  ease: number;             // 易しさ係数（間隔の伸び率）
+  interval: number;         // 現在の復習間隔（日）
+  repetitions: number;      // 連続で思い出せた回数（again で 0 に戻る）
+  lapses: number;           // 覚えた後に忘れた回数
+  due: string | null;       // 次の復習日（YYYY-MM-DD）。null は未学習の新規カード
+  lastReviewed: string | null;
+}
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// 1回目・2回目に思い出せたときの間隔（日）
+const FIRST_INTERVAL = 1;
+const SECOND_INTERVAL = 6;
+// hard / easy の間隔の倍率
+const HARD_INTERVAL_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+// 評価ごとの ease の増減
+const EASE_DELTA: Record<ReviewRating, number> = {
+  again: -0.2,
+  hard: -0.15,
+  good: 0,
+  easy: 0.15,
+};
+
+// 新規カードの初期状態
+export function createCardSchedule(): CardSchedule {
+  return {
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    due: null,
+    lastReviewed: null,
+  };
+}
+
+// 評価後の間隔（日）を計算
+function nextInterval(card: CardSchedule, rating: ReviewRating, ease: number): number {
+  if (rating === 'again') return 0;
+
+  if (card.repetitions === 0) {
+    if (rating === 'easy') return Math.round(FIRST_INTERVAL * EASY_BONUS * ease);
+    return FIRST_INTERVAL;
+  }
+  if (card.repetitions === 1 && rating !== 'hard') {
+    return rating === 'easy' ? Math.round(SECOND_INTERVAL * EASY_BONUS) : SECOND_INTERVAL;
+  }
+
+  switch (rating) {
+    case 'hard':
+      return Math.max(card.interval + 1, Math.round(card.interval * HARD_INTERVAL_FACTOR));
+    case 'good':
+      return Math.max(card.interval + 1, Math.round(card.interval * ease));
+    case 'easy':
+      return Math.max(card.interval + 1, Math.round(card.interval * ease * EASY_BONUS));
+  }
+}
+
+// 評価を反映した新しい状態を返す
+export function scheduleReview(card: CardSchedule, rating: ReviewRating, today: string): CardSchedule {
+  const ease = Math.max(MIN_EASE, card.ease + EASE_DELTA[rating]);
+  const interval = nextInterval(card, rating, ease);
+
+  return {
+    ease,
+    interval,
+    repetitions: rating === 'again' ? 0 : card.repetitions + 1,
+    // 一度でも思い出せたカードを忘れたときだけ数える
+    lapses: rating === 'again' && card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+    due: addDays(today, interval),
+    lastReviewed: today,
+  };
+}
+
+// 評価ボタンに表示する次の間隔（「10日」など）
+export function formatInterval(card: CardSchedule, rating: ReviewRating, today: string): string {
+  const { interval } = scheduleReview(card, rating, today);
+  if (interval === 0) return '今日';
+  if (interval < 30) return `${interval}日`;
+  if (interval < 365) return `${Math.round(interval / 30)}ヶ月`;
+  return `${Math.round((interval / 365) * 10) / 10}年`;
+}
+
+// 今日が復習日か（期限切れを含む。新規カードは含まない）
+export function isDue(card: CardSchedule, today: string): boolean {
+  return card.due !== null && card.due <= today;
+}
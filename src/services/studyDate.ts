@@ -0,0 +1,53 @@
+// 学習日の計算
+// 日付は端末のローカル時刻で決め、1日の始まりの時刻（dayStartHour）より前は前日として扱う
+// （深夜の学習をその日の分として数えるため）。学習日を扱う処理はすべてここを通す
+
+// 1日の始まりの時刻（0〜23時）。useProgressStore の設定から反映する
+let dayStartHour = 0;
+
+export function configureDayStartHour(hour: number): void {
+  dayStartHour = Math.min(23, Math.max(0, Math.floor(hour)));
+}
+
+export function getDayStartHour(): number {
+  return dayStartHour;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// 時刻の学習日（YYYY-MM-DD）
+export function toStudyDate(time: number | Date = Date.now()): string {
+  const d = new Date(time);
+  d.setHours(d.getHours() - dayStartHour);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// 今日の学習日
+export function getToday(): string {
+  return toStudyDate();
+}
+
+// 昨日の学習日
+export function getYesterday(): string {
+  return addDays(getToday(), -1);
+}
+
+// 日付に日数を足す（YYYY-MM-DD、時差の影響を受けないよう UTC で計算）
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+// from から to までの日数（同じ日なら 0）
+export function daysBetween(from: string, to: string): number {
+  const ms = new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime();
+  return Math.round(ms / 86400000);
+}
+
+// 曜日（0: 日曜）
+export function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
@@ -0,0 +1,109 @@
+// 試験日までの学習計画
+// 目標（直近何年分の問題を何周するか）と解答ログから、1日に必要な問題数と進み具合を計算する
+
+import type { Question } from '../types/question';
+import type { Attempt } from '../store/useProgressStore';
+import { isHisshu } from './questionService';
+import { daysBetween, toStudyDate } from './studyDate';
+
+// 学習目標（例: 直近10年分の必修を2周）
+export interface StudyTarget {
+  recentYears: number; // 直近何回分か
+  hisshuOnly: boolean; // 必修のみ
+  passes: number;      // 何周するか
+}
+
+export interface ExamPlan {
+  examDate: string;       // 試験日（YYYY-MM-DD）
+  startDate: string;      // 計画を立てた日（進み具合の基準）
+  target: StudyTarget;
+  autoAdjustGoal: boolean; // 1日の目標問題数を必要なペースに合わせる
+}
+
+// 計画に対する進み具合
+//   on-track : 予定どおり
+//   behind   : 遅れている
+//   ahead    : 予定より進んでいる
+//   finished : 目標を達成した、または試験日を過ぎた
+export type PaceStatus = 'on-track' | 'behind' | 'ahead' | 'finished';
+
+export interface StudyPace {
+  daysLeft: number;       // 試験日までの日数（今日を含む）
+  targetQuestions: number; // 目標に含まれる問題数
+  targetTotal: number;    // 目標の解答数（問題数 × 周回数）
+  completed: number;      // 昨日までに済んだ解答数（1問あたり周回数まで数える）
+  dueCount: number;       // 復習日が来ているカード
+  requiredPerDay: number; // 今日から毎日解く必要がある問題数
+  expected: number;       // 予定どおりなら昨日までに済んでいる解答数
+  status: PaceStatus;
+}
+
+// 予定との差がこの割合（目標の解答数に対して）以内なら予定どおりとみなす
+const PACE_TOLERANCE = 0.05;
+
+// 目標に含まれる問題
+export function getTargetQuestions(questions: Question[], target: StudyTarget): Question[] {
+  const years = [...new Set(questions.map(q => q.year))].sort((a, b) => b - a).slice(0, target.recentYears);
+  return questions.filter(q =>
+    years.includes(q.year) &&
+    !q.isExcluded &&
+    (!target.hisshuOnly || isHisshu(q.year, q.session, q.number))
+  );
+}
+
+// 目標の説明（「直近10回分の必修を2周」）
+export function describeTarget(target: StudyTarget): string {
+  return `直近${target.recentYears}回分の${target.hisshuOnly ? '必修' : '全問題'}を${target.passes}周`;
+}
+
+// 必要なペースと進み具合を計算
+export function calculatePace(
+  plan: ExamPlan,
+  questions: Question[],
+  attempts: Attempt[],
+  dueCount: number,
+  today: string
+): StudyPace {
+  const targetQuestions = getTargetQuestions(questions, plan.target);
+  const targetIds = new Set(targetQuestions.map(q => q.id));
+  const targetTotal = targetQuestions.length * plan.target.passes;
+
+  // 今日の分は含めない（1日の途中で目標が変わらないように）
+  const counts = new Map<string, number>();
+  for (const a of attempts) {
+    if (targetIds.has(a.questionId) && toStudyDate(a.timestamp) < today) {
+      counts.set(a.questionId, (counts.get(a.questionId) || 0) + 1);
+    }
+  }
+  const completed = [...counts.values()].reduce((sum, c) => sum + Math.min(c, plan.target.passes), 0);
+
+  const daysLeft = Math.max(0, daysBetween(today, plan.examDate));
+  const remaining = Math.max(0, targetTotal - completed);
+  const requiredPerDay = daysLeft > 0 ? Math.ceil((remaining + dueCount) / daysLeft) : 0;
+
+  const planDays = Math.max(1, daysBetween(plan.startDate, plan.examDate));
+  const elapsedDays = Math.min(planDays, Math.max(0, daysBetween(plan.startDate, today)));
+  const expected = Math.round((targetTotal * elapsedDays) / planDays);
+
+  let status: PaceStatus;
+  if (daysLeft === 0 || remaining === 0) {
+    status = 'finished';
+  } else if (completed < expected - targetTotal * PACE_TOLERANCE) {
+    status = 'behind';
+  } else if (completed > expected + targetTotal * PACE_TOLERANCE) {
+    status = 'ahead';
+  } else {
+    status = 'on-track';
+  }
+
+  return {
+    daysLeft,
+    targetQuestions: targetQuestions.length,
+    targetTotal,
+    completed,
+    dueCount,
+    requiredPerDay,
+    expected,
+    status,
+  };
+}
@@ -0,0 +1,73 @@
+// 検索用の日本語テキスト正規化
+// インデックス作成とクエリの両方で同じ処理を通し、表記ゆれを吸収する
+//   - 全角英数 → 半角、半角カナ → 全角（NFKC）
+//   - 英字は小文字に
+//   - ひらがな → カタカナ
+
+// 正規化結果（offsets[i] = 正規化後の i 文字目が元テキストの何文字目から来たか）
+export interface NormalizedText {
+  text: string;
+  offsets: number[] | null;  // 位置が変わらない場合は null（メモリ節約）
+}
+
+// 半角カナの濁点・半濁点、結合用の濁点・半濁点
+const VOICED_MARKS = /[ﾞﾟ゙゚]/;
+
+// ひらがな（ぁ〜ゖ、ゝゞ）をカタカナに
+function toKatakana(text: string): string {
+  return text.replace(/[ぁ-ゖゝゞ]/g, ch =>
+    String.fromCharCode(ch.charCodeAt(0) + 0x60)
+  );
+}
+
+// 1文字分（濁点付きの半角カナは2文字）を正規化
+function foldChunk(chunk: string): string {
+  return toKatakana(chunk.normalize('NFKC').toLowerCase());
+}
+
+// 位置の対応付き正規化（検索ヒット位置を元テキストに戻すため）
+export function normalizeWithOffsets(text: string): NormalizedText {
+  let result = '';
+  const offsets: number[] = [];
+  let aligned = true;
+
+  let i = 0;
+  while (i < text.length) {
+    const codePoint = text.codePointAt(i) as number;
+    let size = codePoint > 0xffff ? 2 : 1;
+    // 濁点が続く場合はまとめて変換（ｶﾞ → ガ）
+    if (i + size < text.length && VOICED_MARKS.test(text[i + size])) {
+      size++;
+    }
+
+    const folded = foldChunk(text.slice(i, i + size));
+    if (folded.length !== size) aligned = false;
+    for (let k = 0; k < folded.length; k++) {
+      offsets.push(i);
+    }
+    result += folded;
+    i += size;
+  }
+  offsets.push(text.length);
+
+  return { text: result, offsets: aligned ? null : offsets };
+}
+
+// 正規化（位置情報が不要な場合）
+export function normalizeText(text: string): string {
+  return normalizeWithOffsets(text).text;
+}
+
+// 正規化後の範囲を元テキストの範囲に戻す
+export function toOriginalRange(
+  normalized: NormalizedText,
+  start: number,
+  length: number
+): { start: number; length: number } {
+  const { offsets } = normalized;
+  if (!offsets) return { start, length };
+  // 1文字が複数文字に展開された途中で終わる場合は、元の文字の終わりまで広げる
+  let end = start + length;
+  while (end < offsets.length - 1 && offsets[end] === offsets[end - 1]) end++;
+  return { start: offsets[start], length: offsets[end] - offsets[start] };
+}
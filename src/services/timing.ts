@@ -0,0 +1,20 @@
+// 解答時間の扱い
+
+// 1問あたりの目安（本試験はおよそ1問2分）
+export const TARGET_TIME_PER_QUESTION_MS = 2 * 60 * 1000;
+
+// 集計に使う解答時間の上限（放置していた時間を学習時間に含めないため）
+export const MAX_COUNTED_TIME_MS = 10 * 60 * 1000;
+
+// 集計に使う解答時間（計測していなければ null）
+export function countedTime(timeSpentMs: number | null): number | null {
+  return timeSpentMs === null ? null : Math.min(timeSpentMs, MAX_COUNTED_TIME_MS);
+}
+
+// 経過時間の表示（1:05）
+export function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${ms < 0 ? '-' : ''}${minutes}:${String(seconds).padStart(2, '0')}`;
+}
@@ -1,40 +1,131 @@
 // フラッシュカードの状態管理
+// カードごとに復習状態（SM-2）を持ち、今日復習するカードの一覧を出す
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import {
+  createCardSchedule,
+  isDue,
+  scheduleReview,
+  type CardSchedule,
+  type ReviewRating,
+} from '../services/spacedRepetition';
+import { getToday } from '../services/studyDate';
+
+export interface Flashcard extends CardSchedule {
+  questionId: string;
+  addedAt: number;
+}
+
+// 今日学習を始めた新規カードの数
+interface NewCardCount {
+  date: string;
+  count: number;
+}
 
 interface FlashcardState {
-  // フラッシュカードに追加された問題ID
-  cardIds: string[];
+  // 追加した順のカード
+  cards: Flashcard[];
+  // 1日に学習を始める新規カードの上限
+  newCardsPerDay: number;
+  newCardsToday: NewCardCount;
   // 追加
   addCard: (id: string) => void;
   // 削除
   removeCard: (id: string) => void;
   // 含まれているか確認
   hasCard: (id: string) => boolean;
+  // カードを取得
+  getCard: (id: string) => Flashcard | undefined;
   // 全削除
   clearAll: () => void;
+  // 今日復習するカード（復習日が来たカード → 上限までの新規カード）
+  getDueQueue: () => Flashcard[];
+  // 評価を反映
+  reviewCard: (id: string, rating: ReviewRating) => void;
+  // 新規カードの上限を設定
+  setNewCardsPerDay: (limit: number) => void;
 }
 
+// 今日学習を始めた新規カードの数（日付が変わっていれば 0）
+function countNewToday(newCardsToday: NewCardCount): number {
+  return newCardsToday.date === getToday() ? newCardsToday.count : 0;
+}
+
+// 保存形式のバージョン
+//   0: cardIds（問題IDの配列）のみ
+//   1: カードごとの復習状態
+const PERSIST_VERSION = 1;
+
 export const useFlashcardStore = create<FlashcardState>()(
   persist(
     (set, get) => ({
-      cardIds: [],
+      cards: [],
+      newCardsPerDay: 20,
+      newCardsToday: { date: getToday(), count: 0 },
 
       addCard: (id) => set((state) => {
-        if (state.cardIds.includes(id)) return state;
-        return { cardIds: [...state.cardIds, id] };
+        if (state.cards.some(c => c.questionId === id)) return state;
+        return {
+          cards: [...state.cards, { questionId: id, addedAt: Date.now(), ...createCardSchedule() }],
+        };
       }),
 
       removeCard: (id) => set((state) => ({
-        cardIds: state.cardIds.filter(cid => cid !== id)
+        cards: state.cards.filter(c => c.questionId !== id)
       })),
 
-      hasCard: (id) => get().cardIds.includes(id),
+      hasCard: (id) => get().cards.some(c => c.questionId === id),
+
+      getCard: (id) => get().cards.find(c => c.questionId === id),
+
+      clearAll: () => set({ cards: [] }),
+
+      getDueQueue: () => {
+        const { cards, newCardsPerDay, newCardsToday } = get();
+        const today = getToday();
+
+        // 期限の古いものから
+        const dueCards = cards
+          .filter(c => isDue(c, today))
+          .sort((a, b) => (a.due as string).localeCompare(b.due as string));
+
+        const remainingNew = Math.max(0, newCardsPerDay - countNewToday(newCardsToday));
+        const newCards = cards.filter(c => c.due === null).slice(0, remainingNew);
+
+        return [...dueCards, ...newCards];
+      },
+
+      reviewCard: (id, rating) => set((state) => {
+        const card = state.cards.find(c => c.questionId === id);
+        if (!card) return state;
+
+        const today = getToday();
+        const isNew = card.due === null;
+        return {
+          cards: state.cards.map(c =>
+            c.questionId === id ? { ...c, ...scheduleReview(c, rating, today) } : c
+          ),
+          newCardsToday: isNew
+            ? { date: today, count: countNewToday(state.newCardsToday) + 1 }
+            : state.newCardsToday,
+        };
+      }),
 
-      clearAll: () => set({ cardIds: [] }),
+      setNewCardsPerDay: (limit) => set({ newCardsPerDay: Math.max(0, limit) }),
     }),
     {
       name: 'kokushi-flashcards',
+      version: PERSIST_VERSION,
+      // 旧形式のカードは新規カードとして引き継ぐ
+      migrate: (persisted, version) => {
+        if (version === 0) {
+          const { cardIds = [] } = (persisted || {}) as { cardIds?: string[] };
+          return {
+            cards: cardIds.map((questionId, i) => ({ questionId, addedAt: i, ...createCardSchedule() })),
+          } as FlashcardState;
+        }
+        return persisted as FlashcardState;
+      },
     }
   )
 );
@@ -26,13 +26,33 @@ interface FolderState {
   getFoldersForQuestion: (questionId: string) => Folder[];
   // フォルダ取得
   getFolder: (folderId: string) => Folder | undefined;
+
+  // 間違えた問題フォルダから外すのに必要な連続正解数
+  masteryThreshold: number;
+  setMasteryThreshold: (threshold: number) => void;
+  // 解答結果を間違えた問題フォルダに反映（correctStreak: その問題の直近の連続正解数）
+  trackMistake: (questionId: string, correctStreak: number) => void;
 }
 
-// デフォルトのブックマーク
+// ブックマーク
+export const BOOKMARK_FOLDER_ID = 'bookmark';
+// 間違えた問題（解答結果から自動で出し入れする）
+export const MISTAKES_FOLDER_ID = 'mistakes';
+
+// 間違えた問題フォルダから外すのに必要な連続正解数の上限
+export const MAX_MASTERY_THRESHOLD = 10;
+
+// デフォルトのブックマークと間違えた問題
 export const defaultFolders: Folder[] = [
-  { id: 'bookmark', name: 'ブックマーク', color: '#3B82F6', questionIds: [], createdAt: 0 },
+  { id: BOOKMARK_FOLDER_ID, name: 'ブックマーク', color: '#3B82F6', questionIds: [], createdAt: 0 },
+  { id: MISTAKES_FOLDER_ID, name: '間違えた問題', color: '#EF4444', questionIds: [], createdAt: 0 },
 ];
 
+// 削除できないフォルダか
+export function isSystemFolder(folderId: string): boolean {
+  return defaultFolders.some((f) => f.id === folderId);
+}
+
 export const useFolderStore = create<FolderState>()(
   persist(
     (set, get) => ({
@@ -56,7 +76,7 @@ export const useFolderStore = create<FolderState>()(
       },
 
       deleteFolder: (folderId) =>
-        set((state) => ({
+        set((state) => isSystemFolder(folderId) ? state : ({
           folders: state.folders.filter((f) => f.id !== folderId),
         })),
 
@@ -89,9 +109,38 @@ export const useFolderStore = create<FolderState>()(
         get().folders.filter((f) => f.questionIds.includes(questionId)),
 
       getFolder: (folderId) => get().folders.find((f) => f.id === folderId),
+
+      masteryThreshold: 3,
+
+      setMasteryThreshold: (threshold) =>
+        set({ masteryThreshold: Math.min(MAX_MASTERY_THRESHOLD, Math.max(1, Math.floor(threshold))) }),
+
+      trackMistake: (questionId, correctStreak) => {
+        const mistakes = get().getFolder(MISTAKES_FOLDER_ID);
+        if (correctStreak === 0) {
+          // 間違えた → 追加
+          get().addToFolder(MISTAKES_FOLDER_ID, questionId);
+        } else if (mistakes?.questionIds.includes(questionId) && correctStreak >= get().masteryThreshold) {
+          // 規定回数続けて正解した → 卒業
+          get().removeFromFolder(MISTAKES_FOLDER_ID, questionId);
+        }
+      },
     }),
     {
       name: 'kokushi-folders',
+      // 保存データにないデフォルトフォルダ（後から追加したもの）を補う
+      merge: (persisted, current) => {
+        const saved = (persisted || {}) as Partial<FolderState>;
+        const folders = saved.folders || current.folders;
+        return {
+          ...current,
+          ...saved,
+          folders: [
+            ...defaultFolders.map((d) => folders.find((f) => f.id === d.id) || d),
+            ...folders.filter((f) => !isSystemFolder(f.id)),
+          ],
+        };
+      },
     }
   )
 );
@@ -0,0 +1,123 @@
+// 模擬試験の状態管理（途中でアプリを閉じても再開できるように保存する）
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AnswerResponse } from '../services/grading';
+
+export interface MockExamSession {
+  name: string;            // セッション名（A, B, C, D）
+  questionIds: string[];   // 問題番号順
+  timeLimitMs: number;
+  deadline: number | null; // 開始していなければ null
+  submittedAt: number | null;
+}
+
+export interface MockExam {
+  year: number;
+  sessions: MockExamSession[];
+  currentSession: number;  // 解いている（次に解く）セッションの位置
+  answers: Record<string, AnswerResponse>;
+  flags: string[];         // 見直し用の印をつけた問題
+  startedAt: number;
+  finishedAt: number | null;
+  recorded: boolean;       // 解答ログに記録済みか
+}
+
+interface MockExamState {
+  exam: MockExam | null;
+  // 模擬試験を始める（最初のセッションの開始は startSession で）
+  startExam: (year: number, sessions: Omit<MockExamSession, 'deadline' | 'submittedAt'>[]) => void;
+  // 現在のセッションの時間計測を始める
+  startSession: () => void;
+  // 解答（null で取り消し）
+  setAnswer: (questionId: string, response: AnswerResponse | null) => void;
+  toggleFlag: (questionId: string) => void;
+  // 現在のセッションを終える（最後のセッションなら試験終了）
+  submitSession: () => void;
+  markRecorded: () => void;
+  // 模擬試験をやめる
+  clearExam: () => void;
+}
+
+export const useMockExamStore = create<MockExamState>()(
+  persist(
+    (set, get) => ({
+      exam: null,
+
+      startExam: (year, sessions) => set({
+        exam: {
+          year,
+          sessions: sessions.map(s => ({ ...s, deadline: null, submittedAt: null })),
+          currentSession: 0,
+          answers: {},
+          flags: [],
+          startedAt: Date.now(),
+          finishedAt: null,
+          recorded: false,
+        },
+      }),
+
+      startSession: () => {
+        const { exam } = get();
+        if (!exam || exam.finishedAt) return;
+        const session = exam.sessions[exam.currentSession];
+        if (session.deadline !== null) return;
+        set({
+          exam: {
+            ...exam,
+            sessions: exam.sessions.map((s, i) =>
+              i === exam.currentSession ? { ...s, deadline: Date.now() + s.timeLimitMs } : s
+            ),
+          },
+        });
+      },
+
+      setAnswer: (questionId, response) => {
+        const { exam } = get();
+        if (!exam) return;
+        const answers = { ...exam.answers };
+        if (response) {
+          answers[questionId] = response;
+        } else {
+          delete answers[questionId];
+        }
+        set({ exam: { ...exam, answers } });
+      },
+
+      toggleFlag: (questionId) => {
+        const { exam } = get();
+        if (!exam) return;
+        const flags = exam.flags.includes(questionId)
+          ? exam.flags.filter(id => id !== questionId)
+          : [...exam.flags, questionId];
+        set({ exam: { ...exam, flags } });
+      },
+
+      submitSession: () => {
+        const { exam } = get();
+        if (!exam || exam.finishedAt) return;
+        const now = Date.now();
+        const isLast = exam.currentSession >= exam.sessions.length - 1;
+        set({
+          exam: {
+            ...exam,
+            sessions: exam.sessions.map((s, i) =>
+              i === exam.currentSession ? { ...s, submittedAt: now } : s
+            ),
+            currentSession: isLast ? exam.currentSession : exam.currentSession + 1,
+            finishedAt: isLast ? now : null,
+          },
+        });
+      },
+
+      markRecorded: () => {
+        const { exam } = get();
+        if (exam) set({ exam: { ...exam, recorded: true } });
+      },
+
+      clearExam: () => set({ exam: null }),
+    }),
+    {
+      name: 'kokushi-mock-exam',
+    }
+  )
+);
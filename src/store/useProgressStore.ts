@@ -1,79 +1,306 @@
 // 学習進捗の状態管理（ストリーク、今日の進捗など）
+// 解答は1回ごとに attempts へ追記し、解答数・正解数などの集計はそこから導く
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { AnswerResponse } from '../services/grading';
+import { isKnownCorrect, isLuckyGuess, type Confidence } from '../services/confidence';
+import type { ExamPlan } from '../services/studyPlan';
+import { DEFAULT_SELECTION_MIX, type SelectionMix } from '../services/selectionPolicy';
+import { countedTime } from '../services/timing';
+import { addDays, configureDayStartHour, daysBetween, getToday, getYesterday, toStudyDate } from '../services/studyDate';
+
+// 解答した画面
+//   study  : 学習モード
+//   feed   : フィード（ChatUI、選択肢をタップして解答）
+//   detail : 問題詳細
+//   mock   : 模擬試験（試験の終了時にまとめて記録）
+export type AttemptSource = 'study' | 'feed' | 'detail' | 'mock';
+
+// 1回の解答の記録（追記のみ。後から書き換えるのは解答後に選ぶ自信度だけ）
+export interface Attempt {
+  questionId: string;
+  timestamp: number;          // 解答した時刻（ミリ秒）
+  response: AnswerResponse;   // 選んだ選択肢（選んだ順）または入力した数値
+  isCorrect: boolean;
+  timeSpentMs: number | null; // 問題を表示してから解答までの時間（計測していなければ null）
+  source: AttemptSource;
+  subject: string | null;     // 解答時点の科目（Question.category）
+  confidence: Confidence | null; // 自信度（選んでいなければ null）
+}
+
+// 1日分の学習記録（attempts から集計）
+export interface DailyActivity {
+  date: string;          // YYYY-MM-DD
+  answered: number;
+  correct: number;
+  minutes: number;       // 解答にかけた時間（分、計測できた解答のみ）
+  timeMs: number;        // 解答にかけた時間（ミリ秒、minutes の元）
+  subjects: string[];    // 解いた科目
+  questionIds: string[]; // 解いた問題（解いた順、重複なし）
+}
+
+// 連続学習の記録
+export interface StreakRun {
+  start: string; // 開始日（YYYY-MM-DD）
+  end: string;   // 最終日
+  days: number;
+}
+
+// 解答ログ導入前の集計（個々の解答は残っていない）
+interface LegacyProgress {
+  totalAnswered: number;
+  totalCorrect: number;
+  todayAnswered: number;
+  todayCorrect: number;
+  date: string | null;            // today* の日付
+  answeredQuestionIds: string[];
+}
+
+// 解答ログ導入前（version 0）の保存データ
+interface PersistedProgressV0 {
+  currentStreak?: number;
+  lastStudyDate?: string | null;
+  longestStreak?: number;
+  todayAnswered?: number;
+  todayCorrect?: number;
+  dailyGoal?: number;
+  totalAnswered?: number;
+  totalCorrect?: number;
+  answeredQuestions?: string[];
+}
+
+// 初回正答率
+export interface FirstTryAccuracy {
+  correct: number; // 初回で正解した問題数
+  total: number;   // 解いたことのある問題数
+  rate: number;    // 0〜1（未解答なら0）
+}
 
 interface ProgressState {
+  // 解答ログ
+  attempts: Attempt[];
+  legacy: LegacyProgress | null;
+
   // ストリーク関連
   currentStreak: number;        // 現在の連続日数
   lastStudyDate: string | null; // 最終学習日（YYYY-MM-DD）
   longestStreak: number;        // 最長記録
+  streakFreezes: number;        // ストリークフリーズ（学習しなかった日を1日分カバー）の所持数
+  lastFreezeEarnedDate: string | null; // 最後にフリーズを獲得した日（1日1個まで）
+  frozenDates: string[];        // フリーズでカバーした日
+
+  // 1日の始まりの時刻（0〜23時、これより前は前日の学習として数える）
+  dayStartHour: number;
 
-  // 今日の進捗
+  // 今日の進捗（attempts から集計）
   todayAnswered: number;        // 今日解いた問題数
   todayCorrect: number;         // 今日の正解数
   dailyGoal: number;            // 1日の目標問題数
 
-  // 累計
+  // 試験日と学習目標（未設定なら null）
+  examPlan: ExamPlan | null;
+
+  // 学習モードの出題の割合
+  selectionMix: SelectionMix;
+
+  // 解答時間を目安までのカウントダウンで表示する
+  showCountdown: boolean;
+
+  // 選択肢の順番を入れ替えて表示する（学習モード・問題詳細）
+  shuffleChoices: boolean;
+
+  // 累計（attempts から集計）
   totalAnswered: number;        // 累計解答数
   totalCorrect: number;         // 累計正解数
+  totalLuckyGuesses: number;    // 累計正解数のうち勘で当たったもの
 
-  // 解答した問題ID
+  // 解答した問題ID（attempts から集計）
   answeredQuestions: Set<string>;
 
+  // 日ごとの学習記録（attempts から集計、日付がキー）
+  dailyHistory: Record<string, DailyActivity>;
+
   // アクション
-  recordAnswer: (questionId: string, isCorrect: boolean) => void;
+  recordAnswer: (attempt: Omit<Attempt, 'timestamp' | 'confidence'>) => void;
+  // 問題の直近の解答に自信度を付ける
+  rateLastAttempt: (questionId: string, confidence: Confidence) => void;
   setDailyGoal: (goal: number) => void;
+  setExamPlan: (plan: ExamPlan | null) => void;
+  setSelectionMix: (mix: SelectionMix) => void;
+  setShowCountdown: (show: boolean) => void;
+  setShuffleChoices: (shuffle: boolean) => void;
+  setDayStartHour: (hour: number) => void;
   checkAndUpdateStreak: () => void;
+
+  // 解答ログの参照
+  getAttempts: (questionId: string) => Attempt[];
+  getLastAttempt: (questionId: string) => Attempt | null;
+  getCorrectStreak: (questionId: string) => number;
+  getFirstTryAccuracy: () => FirstTryAccuracy;
+  getStreakHistory: () => StreakRun[];
+}
+
+// 持てるストリークフリーズの上限
+const MAX_STREAK_FREEZES = 2;
+
+function emptyDay(date: string): DailyActivity {
+  return { date, answered: 0, correct: 0, minutes: 0, timeMs: 0, subjects: [], questionIds: [] };
+}
+
+// 1日分の記録に解答を1件加える（元の記録は変更しない）
+function addAttemptToDay(day: DailyActivity, attempt: Attempt): DailyActivity {
+  const timeMs = day.timeMs + (countedTime(attempt.timeSpentMs) ?? 0);
+  return {
+    ...day,
+    answered: day.answered + 1,
+    correct: day.correct + (attempt.isCorrect ? 1 : 0),
+    minutes: Math.round(timeMs / 60000),
+    timeMs,
+    subjects: attempt.subject && !day.subjects.includes(attempt.subject) ? [...day.subjects, attempt.subject] : day.subjects,
+    questionIds: day.questionIds.includes(attempt.questionId) ? day.questionIds : [...day.questionIds, attempt.questionId],
+  };
+}
+
+// 日ごとの学習記録を集計
+function buildDailyHistory(attempts: Attempt[], legacy: LegacyProgress | null): Record<string, DailyActivity> {
+  const history: Record<string, DailyActivity> = {};
+
+  // 解答ログ導入前は最終学習日の件数だけ残っている
+  if (legacy?.date && legacy.todayAnswered > 0) {
+    history[legacy.date] = { ...emptyDay(legacy.date), answered: legacy.todayAnswered, correct: legacy.todayCorrect };
+  }
+
+  for (const a of attempts) {
+    const date = toStudyDate(a.timestamp);
+    history[date] = addAttemptToDay(history[date] || emptyDay(date), a);
+  }
+
+  return history;
 }
 
-// 今日の日付を取得（YYYY-MM-DD）
-function getToday(): string {
-  return new Date().toISOString().split('T')[0];
+type Counters = ReturnType<typeof deriveCounters>;
+
+// 集計値に解答を1件加える（sameDay: 今日の集計が今日のものか。日付が変わっていれば今日の分は数え直す）
+function addAttemptToCounters(counters: Counters, attempt: Attempt, sameDay: boolean): Counters {
+  const date = toStudyDate(attempt.timestamp);
+  const answeredQuestions = counters.answeredQuestions.has(attempt.questionId)
+    ? counters.answeredQuestions
+    : new Set(counters.answeredQuestions).add(attempt.questionId);
+  return {
+    todayAnswered: (sameDay ? counters.todayAnswered : 0) + 1,
+    todayCorrect: (sameDay ? counters.todayCorrect : 0) + (attempt.isCorrect ? 1 : 0),
+    totalAnswered: counters.totalAnswered + 1,
+    totalCorrect: counters.totalCorrect + (attempt.isCorrect ? 1 : 0),
+    totalLuckyGuesses: counters.totalLuckyGuesses + (isLuckyGuess(attempt) ? 1 : 0),
+    answeredQuestions,
+    dailyHistory: {
+      ...counters.dailyHistory,
+      [date]: addAttemptToDay(counters.dailyHistory[date] || emptyDay(date), attempt),
+    },
+  };
 }
 
-// 昨日の日付を取得
-function getYesterday(): string {
-  const d = new Date();
-  d.setDate(d.getDate() - 1);
-  return d.toISOString().split('T')[0];
+// 解答ログから集計値を計算（読み込み時と1日の区切りを変えたときだけ。解答ごとには addAttemptToCounters で足す）
+function deriveCounters(attempts: Attempt[], legacy: LegacyProgress | null) {
+  const today = getToday();
+  const todayAttempts = attempts.filter(a => toStudyDate(a.timestamp) === today);
+  const legacyToday = legacy && legacy.date === today ? legacy : null;
+
+  return {
+    todayAnswered: todayAttempts.length + (legacyToday?.todayAnswered || 0),
+    todayCorrect: todayAttempts.filter(a => a.isCorrect).length + (legacyToday?.todayCorrect || 0),
+    totalAnswered: attempts.length + (legacy?.totalAnswered || 0),
+    totalCorrect: attempts.filter(a => a.isCorrect).length + (legacy?.totalCorrect || 0),
+    totalLuckyGuesses: attempts.filter(isLuckyGuess).length,
+    answeredQuestions: new Set([...(legacy?.answeredQuestionIds || []), ...attempts.map(a => a.questionId)]),
+    dailyHistory: buildDailyHistory(attempts, legacy),
+  };
 }
 
+// 問題ごとの解答（古い順）
+function attemptsFor(attempts: Attempt[], questionId: string): Attempt[] {
+  return attempts.filter(a => a.questionId === questionId);
+}
+
+// 保存するフィールド（集計値は保存しない）
+type PersistedProgress = Pick<
+  ProgressState,
+  | 'attempts'
+  | 'legacy'
+  | 'currentStreak'
+  | 'lastStudyDate'
+  | 'longestStreak'
+  | 'streakFreezes'
+  | 'lastFreezeEarnedDate'
+  | 'frozenDates'
+  | 'dayStartHour'
+  | 'dailyGoal'
+  | 'examPlan'
+  | 'selectionMix'
+  | 'showCountdown'
+  | 'shuffleChoices'
+>;
+
+// 保存形式のバージョン
+//   0: 集計値と answeredQuestions のみ
+//   1: 解答ログ（attempts）
+//   2: 解答ログに科目（subject）を追加
+//   3: 解答ログに自信度（confidence）を追加
+const PERSIST_VERSION = 3;
+
 export const useProgressStore = create<ProgressState>()(
   persist(
     (set, get) => ({
       // 初期値
+      attempts: [],
+      legacy: null,
       currentStreak: 0,
       lastStudyDate: null,
       longestStreak: 0,
-      todayAnswered: 0,
-      todayCorrect: 0,
+      streakFreezes: 0,
+      lastFreezeEarnedDate: null,
+      frozenDates: [],
+      dayStartHour: 0,
       dailyGoal: 20,
-      totalAnswered: 0,
-      totalCorrect: 0,
-      answeredQuestions: new Set(),
+      examPlan: null,
+      selectionMix: DEFAULT_SELECTION_MIX,
+      showCountdown: false,
+      shuffleChoices: false,
+      ...deriveCounters([], null),
 
       // 解答を記録
-      recordAnswer: (questionId, isCorrect) => {
+      recordAnswer: (attempt) => {
+        // ストリーク更新（最終学習日を今日にする前に判定する）
+        get().checkAndUpdateStreak();
+
         const today = getToday();
+        const current = get();
+        const recorded: Attempt = { ...attempt, timestamp: Date.now(), confidence: null };
+        // 最終学習日が今日なら、今日の集計は今日の解答から数えたもの
+        const counters = addAttemptToCounters(current, recorded, current.lastStudyDate === today);
+        set({ attempts: [...current.attempts, recorded], lastStudyDate: today, ...counters });
+
+        // 今日の目標を達成したらストリークフリーズを1つ獲得
         const state = get();
+        if (
+          counters.todayAnswered >= state.dailyGoal &&
+          state.lastFreezeEarnedDate !== today &&
+          state.streakFreezes < MAX_STREAK_FREEZES
+        ) {
+          set({ streakFreezes: state.streakFreezes + 1, lastFreezeEarnedDate: today });
+        }
+      },
 
-        // 日付が変わっていたらリセット
-        const isNewDay = state.lastStudyDate !== today;
-
-        set((prev) => ({
-          todayAnswered: isNewDay ? 1 : prev.todayAnswered + 1,
-          todayCorrect: isNewDay
-            ? (isCorrect ? 1 : 0)
-            : prev.todayCorrect + (isCorrect ? 1 : 0),
-          totalAnswered: prev.totalAnswered + 1,
-          totalCorrect: prev.totalCorrect + (isCorrect ? 1 : 0),
-          lastStudyDate: today,
-          answeredQuestions: new Set([...prev.answeredQuestions, questionId]),
-        }));
-
-        // ストリーク更新
-        get().checkAndUpdateStreak();
+      rateLastAttempt: (questionId, confidence) => {
+        const attempts = get().attempts;
+        let index = attempts.length - 1;
+        while (index >= 0 && attempts[index].questionId !== questionId) index--;
+        if (index < 0 || attempts[index].confidence === confidence) return;
+        const next = [...attempts];
+        next[index] = { ...attempts[index], confidence };
+        const luckyGuessDelta = (isLuckyGuess(next[index]) ? 1 : 0) - (isLuckyGuess(attempts[index]) ? 1 : 0);
+        set({ attempts: next, totalLuckyGuesses: get().totalLuckyGuesses + luckyGuessDelta });
       },
 
       // 目標設定
@@ -81,6 +308,30 @@ export const useProgressStore = create<ProgressState>()(
         set({ dailyGoal: goal });
       },
 
+      // 試験日と学習目標を設定
+      setExamPlan: (plan) => {
+        set({ examPlan: plan });
+      },
+
+      // 学習モードの出題の割合を設定
+      setSelectionMix: (mix) => {
+        set({ selectionMix: mix });
+      },
+
+      setShowCountdown: (show) => {
+        set({ showCountdown: show });
+      },
+
+      setShuffleChoices: (shuffle) => {
+        set({ shuffleChoices: shuffle });
+      },
+
+      // 1日の始まりの時刻を変更（今日の集計もその区切りで数え直す）
+      setDayStartHour: (hour) => {
+        configureDayStartHour(hour);
+        set({ dayStartHour: Math.min(23, Math.max(0, Math.floor(hour))), ...deriveCounters(get().attempts, get().legacy) });
+      },
+
       // ストリークの確認・更新
       checkAndUpdateStreak: () => {
         const today = getToday();
@@ -106,25 +357,155 @@ export const useProgressStore = create<ProgressState>()(
             longestStreak: Math.max(state.longestStreak, 1),
           });
         } else {
-          // 1日以上空いた → ストリークリセット
-          set({
-            currentStreak: 1,
-          });
+          // 空いた日をストリークフリーズで埋められれば継続、足りなければリセット
+          const missedDays = daysBetween(state.lastStudyDate, today) - 1;
+          if (missedDays > 0 && missedDays <= state.streakFreezes) {
+            const newStreak = state.currentStreak + 1;
+            const covered = Array.from({ length: missedDays }, (_, i) => addDays(state.lastStudyDate as string, i + 1));
+            set({
+              currentStreak: newStreak,
+              longestStreak: Math.max(state.longestStreak, newStreak),
+              streakFreezes: state.streakFreezes - missedDays,
+              frozenDates: [...state.frozenDates, ...covered],
+            });
+          } else {
+            set({
+              currentStreak: 1,
+            });
+          }
         }
       },
+
+      getAttempts: (questionId) => attemptsFor(get().attempts, questionId),
+
+      getLastAttempt: (questionId) => {
+        const attempts = attemptsFor(get().attempts, questionId);
+        return attempts.length > 0 ? attempts[attempts.length - 1] : null;
+      },
+
+      // 直近から数えて連続で正解している回数（勘で当たった正解は数えない）
+      getCorrectStreak: (questionId) => {
+        const attempts = attemptsFor(get().attempts, questionId);
+        let streak = 0;
+        for (let i = attempts.length - 1; i >= 0 && isKnownCorrect(attempts[i]); i--) {
+          streak++;
+        }
+        return streak;
+      },
+
+      // 各問題の最初の解答だけで見た正答率
+      getFirstTryAccuracy: () => {
+        const firstAttempts = new Map<string, Attempt>();
+        for (const attempt of get().attempts) {
+          if (!firstAttempts.has(attempt.questionId)) {
+            firstAttempts.set(attempt.questionId, attempt);
+          }
+        }
+        const total = firstAttempts.size;
+        const correct = [...firstAttempts.values()].filter(a => a.isCorrect).length;
+        return { correct, total, rate: total > 0 ? correct / total : 0 };
+      },
+
+      // 学習した日の連続（新しい順、フリーズでカバーした日はつながっているとみなす）
+      getStreakHistory: () => {
+        const { dailyHistory, frozenDates } = get();
+        const dates = Object.keys(dailyHistory).sort();
+        const runs: StreakRun[] = [];
+        for (const date of dates) {
+          const last = runs[runs.length - 1];
+          let next = last ? addDays(last.end, 1) : null;
+          while (next && next < date && frozenDates.includes(next)) {
+            next = addDays(next, 1);
+          }
+          if (last && next === date) {
+            last.end = date;
+            last.days++;
+          } else {
+            runs.push({ start: date, end: date, days: 1 });
+          }
+        }
+        return runs.reverse();
+      },
     }),
     {
       name: 'kokushi-progress',
-      // Setをシリアライズするためのカスタム処理
-      partialize: (state) => ({
-        ...state,
-        answeredQuestions: [...state.answeredQuestions],
-      }),
-      merge: (persisted, current) => ({
-        ...current,
-        ...(persisted as object),
-        answeredQuestions: new Set((persisted as any)?.answeredQuestions || []),
+      version: PERSIST_VERSION,
+      // 集計値は保存せず、読み込み時に attempts から計算し直す
+      partialize: (state): PersistedProgress => ({
+        attempts: state.attempts,
+        legacy: state.legacy,
+        currentStreak: state.currentStreak,
+        lastStudyDate: state.lastStudyDate,
+        longestStreak: state.longestStreak,
+        streakFreezes: state.streakFreezes,
+        lastFreezeEarnedDate: state.lastFreezeEarnedDate,
+        frozenDates: state.frozenDates,
+        dayStartHour: state.dayStartHour,
+        dailyGoal: state.dailyGoal,
+        examPlan: state.examPlan,
+        selectionMix: state.selectionMix,
+        showCountdown: state.showCountdown,
+        shuffleChoices: state.shuffleChoices,
       }),
+      // 旧形式（集計値のみ）は集計値を legacy に移し、以降の解答はログに追記する
+      migrate: (persisted, version) => {
+        let migrated = persisted as PersistedProgress;
+        if (version === 0) {
+          const state = (persisted || {}) as PersistedProgressV0;
+          migrated = {
+            attempts: [],
+            legacy: {
+              totalAnswered: state.totalAnswered || 0,
+              totalCorrect: state.totalCorrect || 0,
+              todayAnswered: state.todayAnswered || 0,
+              todayCorrect: state.todayCorrect || 0,
+              date: state.lastStudyDate || null,
+              answeredQuestionIds: state.answeredQuestions || [],
+            },
+            currentStreak: state.currentStreak || 0,
+            lastStudyDate: state.lastStudyDate || null,
+            longestStreak: state.longestStreak || 0,
+            streakFreezes: 0,
+            lastFreezeEarnedDate: null,
+            frozenDates: [],
+            dayStartHour: 0,
+            dailyGoal: state.dailyGoal || 20,
+            examPlan: null,
+            selectionMix: DEFAULT_SELECTION_MIX,
+            showCountdown: false,
+            shuffleChoices: false,
+          };
+        }
+        // version 1 の解答には科目がない
+        if (version < 2) {
+          migrated = {
+            ...migrated,
+            attempts: (migrated.attempts || []).map(a => ({ ...a, subject: a.subject ?? null })),
+          };
+        }
+        // version 2 までの解答には自信度がない
+        if (version < 3) {
+          migrated = {
+            ...migrated,
+            attempts: (migrated.attempts || []).map(a => ({ ...a, confidence: a.confidence ?? null })),
+          };
+        }
+        return migrated as ProgressState;
+      },
+      merge: (persisted, current) => {
+        const saved = (persisted || {}) as Partial<ProgressState>;
+        const attempts = saved.attempts || [];
+        const legacy = saved.legacy || null;
+        // 集計より先に1日の区切りを反映する
+        configureDayStartHour(saved.dayStartHour ?? current.dayStartHour);
+        return {
+          ...current,
+          ...saved,
+          attempts,
+          legacy,
+          ...deriveCounters(attempts, legacy),
+        };
+      },
     }
   )
 );
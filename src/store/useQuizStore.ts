@@ -0,0 +1,139 @@
+// 問題セット（条件を指定して作る固定の出題）とプリセットの状態管理
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { QuizConfig } from '../services/quizBuilder';
+import { createSeed } from '../services/random';
+
+// 保存した条件（「毎週の50問ドリル」など）
+export interface QuizPreset {
+  id: string;
+  name: string;
+  config: QuizConfig;
+  createdAt: number;
+}
+
+// 解いている問題セット
+export interface ActiveQuiz {
+  name: string | null;               // プリセットから作った場合はその名前
+  config: QuizConfig;
+  questionIds: string[];             // 出題順
+  currentIndex: number;
+  results: Record<string, boolean>;  // 解答した問題の正誤（採点除外は含まない）
+  answered: string[];                // 解答を確定した問題（採点除外も含む）
+  seed: number;                      // 選択肢の並び替えのシード
+  startedAt: number;
+}
+
+interface QuizState {
+  presets: QuizPreset[];
+  activeQuiz: ActiveQuiz | null;
+
+  // プリセットを保存（同じ名前があれば上書き）
+  savePreset: (name: string, config: QuizConfig) => string;
+  deletePreset: (presetId: string) => void;
+
+  // 問題セットを始める（解いている問題セットは破棄される）
+  startQuiz: (questionIds: string[], config: QuizConfig, name?: string | null) => void;
+  // 解答結果を記録
+  recordQuizResult: (questionId: string, isCorrect: boolean) => void;
+  markQuizAnswered: (questionId: string) => void;
+  // 次の問題へ
+  advanceQuiz: () => void;
+  clearQuiz: () => void;
+}
+
+// 保存形式のバージョン
+//   0: 問題セットにシードなし
+//   1: 問題セットに選択肢の並び替えのシード（seed）を追加
+//   2: 問題セットに解答を確定した問題（answered）を追加
+const PERSIST_VERSION = 2;
+
+export const useQuizStore = create<QuizState>()(
+  persist(
+    (set, get) => ({
+      presets: [],
+      activeQuiz: null,
+
+      savePreset: (name, config) => {
+        const existing = get().presets.find(p => p.name === name);
+        if (existing) {
+          set((state) => ({
+            presets: state.presets.map(p => p.id === existing.id ? { ...p, config } : p),
+          }));
+          return existing.id;
+        }
+        const id = `preset-${Date.now()}`;
+        set((state) => ({
+          presets: [...state.presets, { id, name, config, createdAt: Date.now() }],
+        }));
+        return id;
+      },
+
+      deletePreset: (presetId) =>
+        set((state) => ({
+          presets: state.presets.filter(p => p.id !== presetId),
+        })),
+
+      startQuiz: (questionIds, config, name = null) =>
+        set({
+          activeQuiz: {
+            name,
+            config,
+            questionIds,
+            currentIndex: 0,
+            results: {},
+            answered: [],
+            seed: createSeed(),
+            startedAt: Date.now(),
+          },
+        }),
+
+      recordQuizResult: (questionId, isCorrect) => {
+        const { activeQuiz } = get();
+        if (!activeQuiz) return;
+        set({
+          activeQuiz: { ...activeQuiz, results: { ...activeQuiz.results, [questionId]: isCorrect } },
+        });
+      },
+
+      markQuizAnswered: (questionId) => {
+        const { activeQuiz } = get();
+        if (!activeQuiz || activeQuiz.answered.includes(questionId)) return;
+        set({ activeQuiz: { ...activeQuiz, answered: [...activeQuiz.answered, questionId] } });
+      },
+
+      advanceQuiz: () => {
+        const { activeQuiz } = get();
+        if (!activeQuiz) return;
+        set({
+          activeQuiz: {
+            ...activeQuiz,
+            currentIndex: Math.min(activeQuiz.currentIndex + 1, activeQuiz.questionIds.length),
+          },
+        });
+      },
+
+      clearQuiz: () => set({ activeQuiz: null }),
+    }),
+    {
+      name: 'kokushi-quiz',
+      version: PERSIST_VERSION,
+      // シードのない問題セットは開始時刻をシードにし、解答済みの問題は正誤の記録から補う
+      migrate: (persisted, version) => {
+        const state = persisted as QuizState;
+        if (version < 2 && state?.activeQuiz) {
+          const quiz = state.activeQuiz;
+          return {
+            ...state,
+            activeQuiz: {
+              ...quiz,
+              seed: quiz.seed ?? quiz.startedAt,
+              answered: quiz.answered ?? Object.keys(quiz.results),
+            },
+          };
+        }
+        return state;
+      },
+    }
+  )
+);
@@ -2,12 +2,17 @@
 
 import { create } from 'zustand';
 import type { Question, FilterState } from '../types/question';
-import { getAllQuestions, filterQuestions, getYearRange } from '../services/questionService';
+import type { QuestionsMeta } from '../services/questionService';
+import { getQuestionRepository } from '../services/questionRepository';
 
 interface AppState {
   // データ
-  allQuestions: Question[];
   filteredQuestions: Question[];
+  meta: QuestionsMeta | null;
+
+  // 読み込み状態
+  isLoading: boolean;
+  error: string | null;
 
   // フィルタ状態
   filter: FilterState;
@@ -17,6 +22,7 @@ interface AppState {
   showAnswer: boolean;
 
   // アクション
+  loadData: () => Promise<void>;
   setSearchText: (text: string) => void;
   toggleYear: (year: number) => void;
   selectAllYears: () => void;
@@ -24,15 +30,19 @@ interface AppState {
   toggleSession: (session: string) => void;
   selectQuestion: (question: Question | null) => void;
   toggleAnswer: () => void;
-  applyFilter: () => void;
+  applyFilter: () => Promise<void>;
 }
 
-const [minYear, maxYear] = getYearRange();
+// 検索の追い越し防止用（最後に発行した検索の結果だけ反映する）
+let filterRequestId = 0;
 
 export const useStore = create<AppState>((set, get) => ({
-  // 初期データ
-  allQuestions: getAllQuestions(),
-  filteredQuestions: getAllQuestions(),
+  // 初期データ（loadData で読み込む）
+  filteredQuestions: [],
+  meta: null,
+
+  isLoading: false,
+  error: null,
 
   // 初期フィルタ
   filter: {
@@ -46,6 +56,19 @@ export const useStore = create<AppState>((set, get) => ({
   showAnswer: false,
 
   // アクション
+  loadData: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      // 問題本体は検索時に必要な回次だけ読み込まれる
+      const meta = await getQuestionRepository().meta();
+      set({ meta });
+      await get().applyFilter();
+      set({ isLoading: false });
+    } catch (error) {
+      set({ isLoading: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  },
+
   setSearchText: (text) => {
     set((state) => ({
       filter: { ...state.filter, searchText: text }
@@ -67,8 +90,10 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   selectAllYears: () => {
+    const { meta } = get();
+    if (!meta) return;
     const years: number[] = [];
-    for (let y = maxYear; y >= minYear; y--) {
+    for (let y = meta.yearRange.max; y >= meta.yearRange.min; y--) {
       years.push(y);
     }
     set((state) => ({
@@ -105,14 +130,20 @@ export const useStore = create<AppState>((set, get) => ({
     set((state) => ({ showAnswer: !state.showAnswer }));
   },
 
-  applyFilter: () => {
-    const { allQuestions, filter } = get();
-    const filtered = filterQuestions(
-      allQuestions,
-      filter.searchText,
-      filter.selectedYears,
-      filter.sessions
-    );
-    set({ filteredQuestions: filtered });
+  applyFilter: async () => {
+    const { filter } = get();
+    const requestId = ++filterRequestId;
+    try {
+      const results = await getQuestionRepository().query({
+        searchText: filter.searchText,
+        years: filter.selectedYears,
+        sessions: filter.sessions,
+      });
+      if (requestId !== filterRequestId) return;
+      set({ filteredQuestions: results.map(r => r.question), error: null });
+    } catch (error) {
+      if (requestId !== filterRequestId) return;
+      set({ error: error instanceof Error ? error.message : String(error) });
+    }
   },
 }));
@@ -0,0 +1,103 @@
+// 学習モードのセッション（決まった問題数で区切り、途中から再開できるように保存する）
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { createSeed } from '../services/random';
+
+// セッションの種類
+//   adaptive : 出題方針から1問ずつ選ぶ
+//   retry    : 前のセッションで間違えた問題を解き直す（問題は最初から決まっている）
+export type StudySessionKind = 'adaptive' | 'retry';
+
+export interface StudySession {
+  kind: StudySessionKind;
+  length: number;          // 問題数
+  seed: number;            // 出題方針のシード
+  questionIds: string[];   // adaptive: 出題した問題（出題順）、retry: 解き直す問題すべて
+  currentIndex: number;
+  answered: string[];      // 解答を確定した問題
+  startedAt: number;
+  finishedAt: number | null;
+}
+
+interface StudySessionState {
+  // 1セッションの問題数
+  sessionLength: number;
+  setSessionLength: (length: number) => void;
+
+  session: StudySession | null;
+  // セッションを始める（解いているセッションは破棄される）
+  startSession: (kind: StudySessionKind, questionIds?: string[]) => void;
+  // 出題方針から選んだ問題を加える
+  addQuestion: (questionId: string) => void;
+  markAnswered: (questionId: string) => void;
+  // 次の問題へ（最後の問題ならセッション終了）
+  advanceSession: () => void;
+  // 出題できる問題がなくなったので途中で終える
+  finishSession: () => void;
+  clearSession: () => void;
+}
+
+export const useStudySessionStore = create<StudySessionState>()(
+  persist(
+    (set, get) => ({
+      sessionLength: 20,
+
+      setSessionLength: (length) => {
+        set({ sessionLength: Math.max(1, Math.floor(length)) });
+      },
+
+      session: null,
+
+      startSession: (kind, questionIds = []) => {
+        set({
+          session: {
+            kind,
+            length: kind === 'retry' ? questionIds.length : get().sessionLength,
+            seed: createSeed(),
+            questionIds,
+            currentIndex: 0,
+            answered: [],
+            startedAt: Date.now(),
+            finishedAt: null,
+          },
+        });
+      },
+
+      addQuestion: (questionId) => {
+        const { session } = get();
+        if (!session || session.questionIds.includes(questionId)) return;
+        set({ session: { ...session, questionIds: [...session.questionIds, questionId] } });
+      },
+
+      markAnswered: (questionId) => {
+        const { session } = get();
+        if (!session || session.answered.includes(questionId)) return;
+        set({ session: { ...session, answered: [...session.answered, questionId] } });
+      },
+
+      advanceSession: () => {
+        const { session } = get();
+        if (!session || session.finishedAt) return;
+        const currentIndex = session.currentIndex + 1;
+        set({
+          session: {
+            ...session,
+            currentIndex,
+            finishedAt: currentIndex >= session.length ? Date.now() : null,
+          },
+        });
+      },
+
+      finishSession: () => {
+        const { session } = get();
+        if (!session || session.finishedAt) return;
+        set({ session: { ...session, finishedAt: Date.now() } });
+      },
+
+      clearSession: () => set({ session: null }),
+    }),
+    {
+      name: 'kokushi-study-session',
+    }
+  )
+);
@@ -13,9 +13,9 @@ export interface Question {
   figureRefs: string[]; // 図の参照
   images: string[];     // 画像パス
   isExcluded: boolean;  // 採点除外問題かどうか
-  category: string | null;    // 分野（将来用）
+  category: string | null;    // 科目（Subject.name、merge時に分類）
   subcategory: string | null; // サブ分野（将来用）
-  keywords: string[];         // キーワード（将来用）
+  keywords: string[];         // 関連する科目（Subject.name、複数科目にまたがる問題用）
 }
 
 export interface QuestionsData {
@@ -31,6 +31,20 @@ export interface QuestionsData {
   questions: Question[];
 }
 
+// 回次ごとの件数（目録の1行）
+export interface YearSummary {
+  year: number;
+  questionCount: number;    // 表示対象の問題数
+  explanationCount: number; // 解説のある問題数
+}
+
+// 分割データの目録（merge-questions.cjs が生成）
+// 問題本体を読み込まずに回次の範囲や件数を表示するために使う
+export interface QuestionsManifest {
+  meta: QuestionsData['meta'];
+  years: YearSummary[];
+}
+
 // フィルタ条件の型
 export interface FilterState {
   searchText: string;
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 問題データの取得元（bundled / http / indexeddb）
+  readonly VITE_DATA_SOURCE?: string;
+  // APIサーバーのURL（http / indexeddb の場合）
+  readonly VITE_API_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}